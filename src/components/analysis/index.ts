@@ -0,0 +1,4 @@
+export { default as ProbabilityPanel } from "./ProbabilityPanel.vue";
+export { default as HandSimulatorPanel } from "./HandSimulatorPanel.vue";
+export { default as DeckStatsPanel } from "./DeckStatsPanel.vue";
+export { default as ResourceBalanceCard } from "./ResourceBalanceCard.vue";
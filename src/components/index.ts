@@ -5,3 +5,4 @@ export { default as ConfirmModal } from "./modals/ConfirmModal.vue";
 export { default as DeckCodeModal } from "./modals/DeckCodeModal.vue";
 export { default as FilterModal } from "./modals/FilterModal.vue";
 export { default as DeckManagementModal } from "./modals/DeckManagementModal.vue";
+export { default as DeckAnalysisModal } from "./modals/DeckAnalysisModal.vue";
@@ -1,11 +1,19 @@
 import type { CardKind, CardType } from "../types";
 
 export const GAME_CONSTANTS = {
+  MIN_DECK_SIZE: 60,
   MAX_DECK_SIZE: 60,
   MAX_CARD_COPIES: 4,
   MAX_DECK_CODE_LENGTH: 2000,
 } as const;
 
+// デッキ分析（確率計算・手札シミュレーター）の既定値
+export const ANALYSIS_DEFAULTS = {
+  HAND_SIZE: 5,
+  SIMULATION_TRIALS: 10000,
+  TOP_TAG_COUNT: 10,
+} as const;
+
 // カード種別とタイプの定数
 export const CARD_KINDS = [
   "Artist",
@@ -26,6 +34,29 @@ export const CARD_TYPES = [
   "設置",
 ] as const satisfies readonly CardType[];
 
+// CardType のうち色を表すもの／プレイタイプを表すもの
+export const CARD_COLORS = [
+  "赤",
+  "青",
+  "黄",
+  "白",
+  "黒",
+  "全",
+] as const satisfies readonly CardType[];
+
+export const CARD_PLAY_TYPES = [
+  "即時",
+  "装備",
+  "設置",
+] as const satisfies readonly CardType[];
+
+// デッキ構築時の種別ごとの枚数要件（min/max は両端を含む）
+export const DECK_KIND_REQUIREMENTS: readonly {
+  readonly kind: CardKind;
+  readonly min?: number;
+  readonly max?: number;
+}[] = [{ kind: "Artist", min: 1 }];
+
 export const PRIORITY_TAGS: readonly string[] = [
   // --- Artist ---
   "V.W.P",
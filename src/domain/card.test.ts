@@ -0,0 +1,115 @@
+/**
+ * カード検索のハイライト・スニペットのテスト（検索と同じ正規化での照合）。
+ */
+import { readFileSync } from "node:fs";
+import Papa from "papaparse";
+import { describe, expect, it } from "vitest";
+import type { Card, HighlightSegment } from "../types";
+import {
+  findMatchSnippet,
+  matchesSearchText,
+  normalizeSearchKey,
+  splitHighlightSegments,
+} from "./card";
+
+const card = (overrides: Partial<Card> = {}): Card => ({
+  id: "AA-1",
+  name: "【花魁鳥】花譜",
+  kind: "Artist",
+  type: ["赤"],
+  effect: "【登場時効果】VOL+1。ヰ世界情緒のカードを1枚引く。",
+  ...overrides,
+});
+
+const matchedTexts = (segments: readonly HighlightSegment[] | null) =>
+  (segments ?? []).filter((s) => s.matched).map((s) => s.text);
+
+const joined = (segments: readonly HighlightSegment[] | null) =>
+  (segments ?? []).map((s) => s.text).join("");
+
+describe("splitHighlightSegments", () => {
+  it("一致しなければ全体を1つのセグメントで返す", () => {
+    expect(splitHighlightSegments("花譜", "理芽")).toEqual([
+      { text: "花譜", matched: false },
+    ]);
+  });
+
+  it.each([
+    ["全角英数字", "ｖｏｌ＋１", "VOL+1"],
+    ["記号の有無", "vol1", "VOL+1"],
+    ["カタカナとひらがな", "かーど", "カード"],
+    ["歴史的仮名", "イ世界", "ヰ世界"],
+  ])("%s の違いを吸収して元の表記を返す", (_, term, expected) => {
+    const segments = splitHighlightSegments(card().effect!, term);
+    expect(matchedTexts(segments)).toEqual([expected]);
+    expect(joined(segments)).toBe(card().effect);
+  });
+
+  it("重なる一致はまとめる", () => {
+    const segments = splitHighlightSegments("ヰ世界情緒", [
+      "ヰ世界",
+      "世界情緒",
+    ]);
+    expect(segments).toEqual([{ text: "ヰ世界情緒", matched: true }]);
+  });
+
+  it("fuzzy を指定すると誤りを含む検索語の最も近い箇所を返す", () => {
+    expect(
+      matchedTexts(splitHighlightSegments("ヰ世界情緒", "ヰ世快情緒")),
+    ).toEqual([]);
+    expect(
+      matchedTexts(
+        splitHighlightSegments("ヰ世界情緒", "ヰ世快情緒", { fuzzy: true }),
+      ),
+    ).toEqual(["ヰ世界情緒"]);
+  });
+
+  it("半角の濁点は直前の文字とまとめて照合する", () => {
+    expect(matchedTexts(splitHighlightSegments("ｶﾞｰﾄﾞ", "ガード"))).toEqual([
+      "ｶﾞｰﾄﾞ",
+    ]);
+  });
+});
+
+describe("findMatchSnippet", () => {
+  it("表記ゆれで一致した効果テキストの前後を切り出す", () => {
+    const snippet = findMatchSnippet(card(), "ｖｏｌ＋１", "all");
+    expect(matchedTexts(snippet)).toEqual(["VOL+1"]);
+  });
+
+  it("誤りを含む検索語で一致したカード名をハイライトする", () => {
+    const target = card({ name: "【花魁鳥】ヰ世界情緒", effect: "" });
+    expect(matchesSearchText(target, "ヰ世快情緒", "name")).toBe(true);
+    expect(
+      matchedTexts(findMatchSnippet(target, "ヰ世快情緒", "name")),
+    ).toEqual(["ヰ世界情緒"]);
+  });
+
+  it("検索範囲外のテキストは切り出さない", () => {
+    expect(findMatchSnippet(card(), "VOL", "name")).toBeNull();
+  });
+});
+
+describe("card-data.csv との整合", () => {
+  const { data } = Papa.parse<{ name: string; effect: string }>(
+    readFileSync(
+      new URL("../../public/card-data.csv", import.meta.url),
+      "utf8",
+    ),
+    { header: true, skipEmptyLines: true },
+  );
+
+  it("一致箇所を正規化すると検索語の正規化と等しい", () => {
+    expect(data.length).toBeGreaterThan(0);
+    for (const { name, effect } of data) {
+      for (const text of [name, effect ?? ""]) {
+        const key = normalizeSearchKey(text);
+        if (key.length === 0) continue;
+        const segments = splitHighlightSegments(text, text);
+        expect(normalizeSearchKey(matchedTexts(segments).join("")), text).toBe(
+          key,
+        );
+      }
+    }
+  });
+});
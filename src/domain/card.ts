@@ -1,25 +1,443 @@
 /**
  * @file カードのドメインロジックを定義する。
  *
- * このファイルでは、カード名/ID による検索の純粋関数のみを提供する。
+ * このファイルでは、カード名/ID/効果テキストによる検索と、
+ * 検索語のハイライト用分割（スニペット抽出）の純粋関数のみを提供する。
+ * - 検索は正規化（NFKC・小文字化・カタカナ→ひらがな・記号/空白の除去）した文字列同士で比較する
+ * - カード名は編集距離による表記ゆれ（タイプミス）も許容し、一致の質をスコアで返す
+ * - 正規化済みの文字列は検索インデックス（createCardSearchIndex）として事前に構築できる
+ * - ハイライトも同じ正規化で照合し、一致範囲を元のテキストの位置に戻して分割する
  * - フィルタリング/生成の責務は他モジュールへ委譲済み
  * - 副作用を避け、不変データ構造を優先する関数型アプローチを採用
  */
-import type { Card } from "../types";
+import type { Card, HighlightSegment, TextSearchScope } from "../types";
 
-// カード名による検索
-export const searchCardsByName = (
+// スニペットとして一致箇所の前後に残す文字数
+const SNIPPET_CONTEXT_LENGTH = 16 as const;
+const ELLIPSIS = "…" as const;
+
+// 一致の種類ごとのスコア（大きいほど上位）
+const SEARCH_SCORES = {
+  EXACT: 100,
+  NAME_PREFIX: 90,
+  ID_PREFIX: 85,
+  NAME_SUBSTRING: 80,
+  ID_SUBSTRING: 70,
+  EFFECT_SUBSTRING: 60,
+  NAME_FUZZY: 50, // 誤り1件ごとに FUZZY_PENALTY を減算
+  FUZZY_PENALTY: 10,
+} as const;
+
+const normalizeSearchText = (searchText: string): string =>
+  searchText.trim().toLowerCase();
+
+// カタカナ（ァ〜ヶ）とひらがな（ぁ〜ゖ）のコードポイント差
+const KATAKANA_TO_HIRAGANA_OFFSET = 0x60;
+const KATAKANA_PATTERN = /[\u30a1-\u30f6]/g;
+// 歴史的仮名は現代仮名に寄せる（ゐ→い、ゑ→え）
+const ARCHAIC_KANA: Readonly<Record<string, string>> = { ゐ: "い", ゑ: "え" };
+const ARCHAIC_KANA_PATTERN = /[ゐゑ]/g;
+// 空白・句読点・記号（【】・. + など）は比較対象外
+const IGNORED_CHARS_PATTERN = /[\s\p{P}\p{S}]/gu;
+
+/**
+ * 検索用の正規化（NFKC・小文字化・カタカナ→ひらがな・歴史的仮名の統一・記号/空白の除去）
+ */
+export const normalizeSearchKey = (text: string): string =>
+  text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(KATAKANA_PATTERN, (ch) =>
+      String.fromCharCode(ch.charCodeAt(0) - KATAKANA_TO_HIRAGANA_OFFSET),
+    )
+    .replace(ARCHAIC_KANA_PATTERN, (ch) => ARCHAIC_KANA[ch] ?? ch)
+    .replace(IGNORED_CHARS_PATTERN, "");
+
+/**
+ * 検索語の長さに応じた許容誤り数（短い語は誤検出を避けるため完全一致のみ）
+ */
+const allowedTypos = (queryLength: number): number => {
+  if (queryLength < 3) return 0;
+  if (queryLength < 6) return 1;
+  return 2;
+};
+
+/**
+ * テキスト中の範囲（start 以上 end 未満）
+ */
+interface TextRange {
+  readonly start: number;
+  readonly end: number;
+}
+
+/**
+ * pattern と text の任意の部分文字列との最小編集距離と、その部分文字列の範囲
+ * （Sellers のアルゴリズム。同じ距離なら先に現れるものを採用）
+ */
+const findApproximateSubstring = (
+  pattern: string,
+  text: string,
+): TextRange & { readonly distance: number } => {
+  const m = pattern.length;
+  let prev = Array.from({ length: m + 1 }, (_, i) => i);
+  let prevStart = Array.from({ length: m + 1 }, () => 0);
+  let best = { distance: prev[m]!, start: 0, end: 0 };
+  for (let j = 0; j < text.length; j++) {
+    const cur = [0];
+    const curStart = [j + 1];
+    for (let i = 1; i <= m; i++) {
+      const cost = pattern[i - 1] === text[j] ? 0 : 1;
+      const candidates = [
+        [prev[i - 1]! + cost, prevStart[i - 1]!],
+        [prev[i]! + 1, prevStart[i]!],
+        [cur[i - 1]! + 1, curStart[i - 1]!],
+      ] as const;
+      const [distance, start] = candidates.reduce((a, b) =>
+        b[0] < a[0] ? b : a,
+      );
+      cur.push(distance);
+      curStart.push(start);
+    }
+    if (cur[m]! < best.distance) {
+      best = { distance: cur[m]!, start: curStart[m]!, end: j + 1 };
+    }
+    prev = cur;
+    prevStart = curStart;
+  }
+  return best;
+};
+
+/**
+ * 正規化後の文字列と、その各文字（UTF-16 単位）に対応する元のテキストの範囲
+ */
+interface SearchKeyMapping {
+  readonly key: string;
+  readonly ranges: readonly TextRange[];
+}
+
+// 結合文字（濁点など。半角の濁点・半濁点を含む）は直前の文字とまとめて正規化する
+const CHARACTER_CLUSTER_PATTERN =
+  /[^\p{M}\uff9e\uff9f][\p{M}\uff9e\uff9f]*|[\p{M}\uff9e\uff9f]+/gu;
+
+// カード名・効果テキストは種類が限られるため、対応付けを再利用する（一覧の再描画ごとの再計算を避ける）
+const SEARCH_KEY_MAPPING_CACHE_SIZE = 4096 as const;
+const searchKeyMappingCache = new Map<string, SearchKeyMapping>();
+
+const mapSearchKey = (text: string): SearchKeyMapping => {
+  const cached = searchKeyMappingCache.get(text);
+  if (cached) return cached;
+  let key = "";
+  const ranges: TextRange[] = [];
+  for (const match of text.matchAll(CHARACTER_CLUSTER_PATTERN)) {
+    const normalized = normalizeSearchKey(match[0]);
+    const range = { start: match.index, end: match.index + match[0].length };
+    key += normalized;
+    for (let i = 0; i < normalized.length; i++) ranges.push(range);
+  }
+  const mapping = { key, ranges };
+  if (searchKeyMappingCache.size >= SEARCH_KEY_MAPPING_CACHE_SIZE) {
+    searchKeyMappingCache.clear();
+  }
+  searchKeyMappingCache.set(text, mapping);
+  return mapping;
+};
+
+// 正規化後の範囲を元のテキストの範囲に戻す
+const toOriginalRange = (
+  mapping: SearchKeyMapping,
+  start: number,
+  end: number,
+): TextRange => ({
+  start: mapping.ranges[start]!.start,
+  end: mapping.ranges[end - 1]!.end,
+});
+
+// 重ならない全出現位置
+const findAllOccurrences = (text: string, term: string): TextRange[] => {
+  const ranges: TextRange[] = [];
+  for (
+    let index = text.indexOf(term);
+    index !== -1;
+    index = text.indexOf(term, index + term.length)
+  ) {
+    ranges.push({ start: index, end: index + term.length });
+  }
+  return ranges;
+};
+
+/**
+ * 検索語に一致する元のテキストの範囲（検索と同じ正規化で照合する）
+ * @param fuzzy 完全に一致しない場合に、許容誤り数以内の最も近い箇所を採用するか
+ */
+const findHighlightRanges = (
+  text: string,
+  searchText: string,
+  fuzzy: boolean,
+): TextRange[] => {
+  const raw = normalizeSearchText(searchText);
+  if (raw.length === 0) return [];
+  const key = normalizeSearchKey(raw);
+  // 記号のみの検索語は元の文字列の部分一致（scoreRaw と同じ）
+  if (key.length === 0) return findAllOccurrences(text.toLowerCase(), raw);
+
+  const mapping = mapSearchKey(text);
+  const exact = findAllOccurrences(mapping.key, key);
+  if (exact.length > 0 || !fuzzy) {
+    return exact.map((r) => toOriginalRange(mapping, r.start, r.end));
+  }
+  const maxTypos = allowedTypos(key.length);
+  if (maxTypos === 0) return [];
+  const approx = findApproximateSubstring(key, mapping.key);
+  if (approx.distance > maxTypos || approx.end <= approx.start) return [];
+  return [toOriginalRange(mapping, approx.start, approx.end)];
+};
+
+// 重なる・隣接する範囲をまとめて昇順に並べる
+const mergeRanges = (ranges: readonly TextRange[]): TextRange[] =>
+  [...ranges]
+    .sort((a, b) => a.start - b.start || b.end - a.end)
+    .reduce<TextRange[]>((merged, range) => {
+      const last = merged.at(-1);
+      if (last && range.start <= last.end) {
+        merged[merged.length - 1] = {
+          start: last.start,
+          end: Math.max(last.end, range.end),
+        };
+      } else {
+        merged.push(range);
+      }
+      return merged;
+    }, []);
+
+// 範囲で分割したセグメント
+const toHighlightSegments = (
+  text: string,
+  ranges: readonly TextRange[],
+): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+  for (const range of mergeRanges(ranges)) {
+    if (range.start > cursor) {
+      segments.push({ text: text.slice(cursor, range.start), matched: false });
+    }
+    segments.push({ text: text.slice(range.start, range.end), matched: true });
+    cursor = range.end;
+  }
+  if (cursor < text.length || segments.length === 0) {
+    segments.push({ text: text.slice(cursor), matched: false });
+  }
+  return segments;
+};
+
+/**
+ * 検索インデックスの1件（正規化済みの文字列を保持）
+ */
+export interface CardSearchEntry {
+  readonly card: Card;
+  readonly id: string;
+  readonly name: string;
+  readonly effect: string;
+}
+
+/**
+ * カード検索インデックス（カードデータの読み込み後に一度だけ構築する）
+ */
+export interface CardSearchIndex {
+  readonly entries: readonly CardSearchEntry[];
+  readonly byId: ReadonlyMap<string, CardSearchEntry>;
+}
+
+/**
+ * 検索結果（score が大きいほど一致の質が高い）
+ */
+export interface CardSearchResult {
+  readonly card: Card;
+  readonly score: number;
+}
+
+const createCardSearchEntry = (card: Card): CardSearchEntry => ({
+  card,
+  id: normalizeSearchKey(card.id),
+  name: normalizeSearchKey(card.name),
+  effect: normalizeSearchKey(card.effect ?? ""),
+});
+
+/**
+ * カード検索インデックスを構築
+ */
+export const createCardSearchIndex = (
+  cards: readonly Card[],
+): CardSearchIndex => {
+  const entries = cards.map(createCardSearchEntry);
+  return {
+    entries,
+    byId: new Map(entries.map((e) => [e.card.id, e] as const)),
+  };
+};
+
+// インデックスにないカードはその場で正規化する
+const getSearchEntry = (
+  card: Card,
+  index: CardSearchIndex | undefined,
+): CardSearchEntry => index?.byId.get(card.id) ?? createCardSearchEntry(card);
+
+const scoreName = (entry: CardSearchEntry, key: string): number => {
+  if (entry.name === key || entry.id === key) return SEARCH_SCORES.EXACT;
+  if (entry.name.startsWith(key)) return SEARCH_SCORES.NAME_PREFIX;
+  if (entry.id.startsWith(key)) return SEARCH_SCORES.ID_PREFIX;
+  if (entry.name.includes(key)) return SEARCH_SCORES.NAME_SUBSTRING;
+  if (entry.id.includes(key)) return SEARCH_SCORES.ID_SUBSTRING;
+
+  const maxTypos = allowedTypos(key.length);
+  if (maxTypos === 0) return 0;
+  const { distance } = findApproximateSubstring(key, entry.name);
+  if (distance > maxTypos) return 0;
+  return (
+    SEARCH_SCORES.NAME_FUZZY - SEARCH_SCORES.FUZZY_PENALTY * (distance - 1)
+  );
+};
+
+const scoreEffect = (entry: CardSearchEntry, key: string): number =>
+  entry.effect.includes(key) ? SEARCH_SCORES.EFFECT_SUBSTRING : 0;
+
+// 記号のみの検索語など、正規化で空になる場合は元の文字列の部分一致で判定する
+const scoreRaw = (card: Card, raw: string, scope: TextSearchScope): number => {
+  const inName =
+    scope !== "effect" &&
+    (card.name.toLowerCase().includes(raw) ||
+      card.id.toLowerCase().includes(raw));
+  if (inName) return SEARCH_SCORES.NAME_SUBSTRING;
+  const inEffect =
+    scope !== "name" && (card.effect ?? "").toLowerCase().includes(raw);
+  return inEffect ? SEARCH_SCORES.EFFECT_SUBSTRING : 0;
+};
+
+/**
+ * 検索語に対するカードの一致スコア（0 は不一致、空の検索語は常に一致）
+ */
+export const scoreSearchText = (
+  card: Card,
+  searchText: string,
+  scope: TextSearchScope,
+  index?: CardSearchIndex,
+): number => {
+  const raw = normalizeSearchText(searchText);
+  if (raw.length === 0) return SEARCH_SCORES.EXACT;
+  const key = normalizeSearchKey(raw);
+  if (key.length === 0) return scoreRaw(card, raw, scope);
+
+  const entry = getSearchEntry(card, index);
+  switch (scope) {
+    case "name":
+      return scoreName(entry, key);
+    case "effect":
+      return scoreEffect(entry, key);
+    case "all":
+      return Math.max(scoreName(entry, key), scoreEffect(entry, key));
+  }
+};
+
+/**
+ * 検索範囲を指定してカードが検索語に一致するか（空の検索語は常に一致）
+ */
+export const matchesSearchText = (
+  card: Card,
+  searchText: string,
+  scope: TextSearchScope,
+  index?: CardSearchIndex,
+): boolean => scoreSearchText(card, searchText, scope, index) > 0;
+
+/**
+ * 検索範囲を指定してカードを検索（並び順は入力のまま）
+ */
+export const searchCards = (
   cards: readonly Card[],
   searchText: string,
+  scope: TextSearchScope,
+  index?: CardSearchIndex,
 ): readonly Card[] => {
   if (!searchText || searchText.trim().length === 0) {
     return cards;
   }
 
-  const normalizedSearchText = searchText.trim().toLowerCase();
-  return cards.filter(
-    (card) =>
-      card.name.toLowerCase().includes(normalizedSearchText) ||
-      card.id.toLowerCase().includes(normalizedSearchText),
+  return cards.filter((card) =>
+    matchesSearchText(card, searchText, scope, index),
+  );
+};
+
+/**
+ * インデックス全体を検索し、一致スコアの高い順に返す（同点は登録順）
+ */
+export const searchCardIndex = (
+  index: CardSearchIndex,
+  searchText: string,
+  scope: TextSearchScope,
+): readonly CardSearchResult[] =>
+  index.entries
+    .map((entry) => ({
+      card: entry.card,
+      score: scoreSearchText(entry.card, searchText, scope, index),
+    }))
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+// カード名による検索
+export const searchCardsByName = (
+  cards: readonly Card[],
+  searchText: string,
+  index?: CardSearchIndex,
+): readonly Card[] => searchCards(cards, searchText, "name", index);
+
+/**
+ * テキストを検索語の一致箇所で分割（検索と同じ正規化で照合する）
+ * - 複数の検索語の一致箇所が重なる場合はまとめて1つの一致とする
+ * @param options.fuzzy 完全に一致しない検索語を、表記ゆれ（誤り）を許容して照合するか
+ */
+export const splitHighlightSegments = (
+  text: string,
+  searchTexts: string | readonly string[],
+  options: { readonly fuzzy?: boolean } = {},
+): readonly HighlightSegment[] => {
+  const terms = typeof searchTexts === "string" ? [searchTexts] : searchTexts;
+  return toHighlightSegments(
+    text,
+    terms.flatMap((term) =>
+      findHighlightRanges(text, term, options.fuzzy ?? false),
+    ),
   );
 };
+
+/**
+ * 検索語に一致した箇所の前後を切り出したスニペット
+ * - 効果テキストの一致を優先し、次いでカード名（検索範囲に含まれる場合のみ）
+ * - カード名は検索と同様に表記ゆれ（誤り）を許容して照合する
+ * @returns 一致しない場合は null
+ */
+export const findMatchSnippet = (
+  card: Card,
+  searchText: string,
+  scope: TextSearchScope,
+): readonly HighlightSegment[] | null => {
+  if (scope !== "name" && card.effect !== undefined) {
+    const effect = card.effect;
+    const [first] = findHighlightRanges(effect, searchText, false);
+    if (first) {
+      const start = Math.max(0, first.start - SNIPPET_CONTEXT_LENGTH);
+      const end = Math.min(effect.length, first.end + SNIPPET_CONTEXT_LENGTH);
+      const snippet = effect.slice(start, end);
+      // 切り出した範囲内の一致のみを、切り出し位置を起点に付け直す
+      const ranges = findHighlightRanges(snippet, searchText, false);
+      return [
+        ...(start > 0 ? [{ text: ELLIPSIS, matched: false }] : []),
+        ...toHighlightSegments(snippet, ranges),
+        ...(end < effect.length ? [{ text: ELLIPSIS, matched: false }] : []),
+      ];
+    }
+  }
+
+  if (scope !== "effect") {
+    const ranges = findHighlightRanges(card.name, searchText, true);
+    if (ranges.length > 0) return toHighlightSegments(card.name, ranges);
+  }
+  return null;
+};
@@ -4,14 +4,24 @@
  * このファイルでは、デッキ内のカードの追加、削除、枚数変更、状態計算など、
  * デッキ操作に関する純粋関数を提供する。
  * - デッキカードのバリデーションと生成
- * - デッキの状態（空、有効、無効）の計算
+ * - デッキの状態（空、有効、無効）の計算（検証ルールは deckRules.ts）
  * - 副作用を避け、不変データ構造を優先する関数型アプローチを採用
  * - パフォーマンス最適化のためにMapベースの内部処理を活用
+ * - カードごとの最大枚数は CopyLimitResolver で解決（制限カード対応）
+ * - 2つのデッキの差分（追加/削除/枚数変更）の計算とテキスト化
  */
 
-import { GAME_CONSTANTS } from "../constants";
-import type { Card, DeckCard, DeckState, DeckOperation } from "../types";
+import type {
+  Card,
+  DeckCard,
+  DeckDiff,
+  DeckState,
+  DeckOperation,
+} from "../types";
 import { DeckOperationError } from "../types/deck"; // 更新されたDeckOperationErrorをインポート
+import { DEFAULT_DECK_RULES, validateDeck, type DeckRule } from "./deckRules";
+import { defaultCopyLimit, type CopyLimitResolver } from "./restriction";
+import { compareCards, compareDeckCards } from "./sort";
 
 // =============================================================================
 // Map ベースのパフォーマンス最適化関数
@@ -42,7 +52,11 @@ const mapToDeckCards = (map: Map<string, DeckCard>): readonly DeckCard[] => {
 // =============================================================================
 
 // デッキカード作成関数
-export const createDeckCard = (card: Card, count: number): DeckCard => {
+export const createDeckCard = (
+  card: Card,
+  count: number,
+  getCopyLimit: CopyLimitResolver = defaultCopyLimit,
+): DeckCard => {
   if (count < 1) {
     throw new DeckOperationError({
       type: "InvalidCardCount",
@@ -50,11 +64,12 @@ export const createDeckCard = (card: Card, count: number): DeckCard => {
       count,
     });
   }
-  if (count > GAME_CONSTANTS.MAX_CARD_COPIES) {
+  const maxCount = getCopyLimit(card.id);
+  if (count > maxCount) {
     throw new DeckOperationError({
       type: "MaxCountExceeded",
       cardId: card.id,
-      maxCount: GAME_CONSTANTS.MAX_CARD_COPIES,
+      maxCount,
       count,
     });
   }
@@ -65,37 +80,17 @@ export const createDeckCard = (card: Card, count: number): DeckCard => {
 export const calculateTotalCards = (cards: readonly DeckCard[]): number => {
   return cards.reduce((sum, c) => sum + c.count, 0);
 };
-// デッキの状態を計算
-export const calculateDeckState = (cards: readonly DeckCard[]): DeckState => {
+// デッキの状態を計算（ルールセットによる検証を含む）
+export const calculateDeckState = (
+  cards: readonly DeckCard[],
+  rules: readonly DeckRule[] = DEFAULT_DECK_RULES,
+): DeckState => {
   if (cards.length === 0) {
     return { type: "empty" };
   }
 
   const totalCount = calculateTotalCards(cards);
-  const errors: DeckOperationError[] = [];
-
-  // カード枚数のバリデーション
-  for (const deckCard of cards) {
-    if (deckCard.count < 1) {
-      errors.push(
-        new DeckOperationError({
-          type: "InvalidCardCount",
-          cardId: deckCard.card.id,
-          count: deckCard.count,
-        }),
-      );
-    }
-    if (deckCard.count > GAME_CONSTANTS.MAX_CARD_COPIES) {
-      errors.push(
-        new DeckOperationError({
-          type: "MaxCountExceeded",
-          cardId: deckCard.card.id,
-          maxCount: GAME_CONSTANTS.MAX_CARD_COPIES,
-          count: deckCard.count,
-        }),
-      );
-    }
-  }
+  const errors = validateDeck(cards, rules);
 
   if (errors.length > 0) {
     return { type: "invalid", cards, totalCount, errors };
@@ -108,16 +103,18 @@ export const calculateDeckState = (cards: readonly DeckCard[]): DeckState => {
 export const addCardToDeck = (
   cards: readonly DeckCard[],
   cardToAdd: Card,
+  getCopyLimit: CopyLimitResolver = defaultCopyLimit,
 ): readonly DeckCard[] => {
   const deckMap = createDeckCardMap(cards);
   const existingCard = deckMap.get(cardToAdd.id);
 
   if (existingCard) {
-    if (existingCard.count >= GAME_CONSTANTS.MAX_CARD_COPIES) {
+    const maxCount = getCopyLimit(cardToAdd.id);
+    if (existingCard.count >= maxCount) {
       throw new DeckOperationError({
         type: "MaxCountExceeded",
         cardId: cardToAdd.id,
-        maxCount: GAME_CONSTANTS.MAX_CARD_COPIES,
+        maxCount,
         count: existingCard.count + 1,
       });
     }
@@ -130,7 +127,7 @@ export const addCardToDeck = (
 
     return mapToDeckCards(deckMap);
   } else {
-    const newDeckCard = createDeckCard(cardToAdd, 1);
+    const newDeckCard = createDeckCard(cardToAdd, 1, getCopyLimit);
     deckMap.set(cardToAdd.id, newDeckCard);
     return mapToDeckCards(deckMap);
   }
@@ -141,6 +138,7 @@ export const setCardCount = (
   cards: readonly DeckCard[],
   cardId: string,
   count: number,
+  getCopyLimit: CopyLimitResolver = defaultCopyLimit,
 ): readonly DeckCard[] => {
   const deckMap = createDeckCardMap(cards);
   const existingCard = deckMap.get(cardId);
@@ -169,11 +167,13 @@ export const setCardCount = (
     return cards;
   }
 
-  if (count > GAME_CONSTANTS.MAX_CARD_COPIES) {
+  // 制限の変更で上限を超えている場合でも、減らす方向の変更は許可する
+  const maxCount = getCopyLimit(cardId);
+  if (count > maxCount && count > existingCard.count) {
     throw new DeckOperationError({
       type: "MaxCountExceeded",
       cardId,
-      maxCount: GAME_CONSTANTS.MAX_CARD_COPIES,
+      maxCount,
       count,
     });
   }
@@ -203,43 +203,102 @@ export const removeCardFromDeck = (
 export const incrementCardCount = (
   cards: readonly DeckCard[],
   cardId: string,
+  getCopyLimit: CopyLimitResolver = defaultCopyLimit,
 ): readonly DeckCard[] => {
   const existing = cards.find((dc) => dc.card.id === cardId);
   if (!existing) {
     throw new DeckOperationError({ type: "CardNotFound", cardId });
   }
-  return setCardCount(cards, cardId, existing.count + 1);
+  return setCardCount(cards, cardId, existing.count + 1, getCopyLimit);
 };
 
 // カード枚数を減らす（Mapベース最適化版）
 export const decrementCardCount = (
   cards: readonly DeckCard[],
   cardId: string,
+  getCopyLimit: CopyLimitResolver = defaultCopyLimit,
 ): readonly DeckCard[] => {
   const existing = cards.find((dc) => dc.card.id === cardId);
   if (!existing) {
     throw new DeckOperationError({ type: "CardNotFound", cardId });
   }
-  return setCardCount(cards, cardId, existing.count - 1);
+  return setCardCount(cards, cardId, existing.count - 1, getCopyLimit);
 };
 
 // デッキ操作を実行
 export const executeDeckOperation = (
   cards: readonly DeckCard[],
   operation: DeckOperation,
+  getCopyLimit: CopyLimitResolver = defaultCopyLimit,
 ): readonly DeckCard[] => {
   switch (operation.type) {
     case "addCard":
-      return addCardToDeck(cards, operation.card);
+      return addCardToDeck(cards, operation.card, getCopyLimit);
     case "removeCard":
       return removeCardFromDeck(cards, operation.cardId);
     case "incrementCount":
-      return incrementCardCount(cards, operation.cardId);
+      return incrementCardCount(cards, operation.cardId, getCopyLimit);
     case "decrementCount":
-      return decrementCardCount(cards, operation.cardId);
+      return decrementCardCount(cards, operation.cardId, getCopyLimit);
     case "setCount":
-      return setCardCount(cards, operation.cardId, operation.count);
+      return setCardCount(
+        cards,
+        operation.cardId,
+        operation.count,
+        getCopyLimit,
+      );
     case "clear":
       return [] as readonly DeckCard[];
   }
 };
+
+// 2つのデッキの差分を計算（a: 比較元, b: 比較先）
+export const diffDecks = (
+  a: readonly DeckCard[],
+  b: readonly DeckCard[],
+): DeckDiff => {
+  const aMap = createDeckCardMap(a);
+  const bMap = createDeckCardMap(b);
+
+  const added = b.filter((dc) => !aMap.has(dc.card.id));
+  const removed = a.filter((dc) => !bMap.has(dc.card.id));
+  const changed = a.flatMap((dc) => {
+    const other = bMap.get(dc.card.id);
+    if (!other || other.count === dc.count) return [];
+    return [{ card: dc.card, before: dc.count, after: other.count }];
+  });
+
+  return {
+    added: [...added].sort(compareDeckCards),
+    removed: [...removed].sort(compareDeckCards),
+    changed: changed.sort((x, y) => compareCards(x.card, y.card)),
+  };
+};
+
+// 差分が存在しないかどうか
+export const isEmptyDeckDiff = (diff: DeckDiff): boolean =>
+  diff.added.length === 0 &&
+  diff.removed.length === 0 &&
+  diff.changed.length === 0;
+
+// 差分をテキスト化（共有・記録用）
+export const formatDeckDiffAsText = (
+  diff: DeckDiff,
+  labels: { readonly from: string; readonly to: string },
+): string => {
+  const lines = [`${labels.from} → ${labels.to}`];
+  if (isEmptyDeckDiff(diff)) {
+    lines.push("差分はありません");
+    return lines.join("\n");
+  }
+  for (const dc of diff.added) {
+    lines.push(`+ ${dc.card.name} (${dc.card.id}) ×${dc.count}`);
+  }
+  for (const dc of diff.removed) {
+    lines.push(`- ${dc.card.name} (${dc.card.id}) ×${dc.count}`);
+  }
+  for (const c of diff.changed) {
+    lines.push(`± ${c.card.name} (${c.card.id}) ${c.before} → ${c.after}`);
+  }
+  return lines.join("\n");
+};
@@ -0,0 +1,203 @@
+/**
+ * @file デッキの構築ルール（レギュレーション）を検証するルールエンジン。
+ *
+ * - ルールは `(cards) => errors` の純粋関数として表現し、配列で合成する。
+ * - 違反は DeckOperationError（構造化エラー）として返し、UI文言は呼び出し側に委ねる。
+ * - 「ブロッキング」な違反（不正枚数・物理的な上限超過）と、
+ *   構築途中で一時的に発生しうる「レギュレーション違反」（枚数不足・禁止カード等）を区別する。
+ */
+import { DECK_KIND_REQUIREMENTS, GAME_CONSTANTS } from "../constants";
+import type { CardKind, DeckCard, DeckOperationErrorType } from "../types";
+import { DeckOperationError } from "../types/deck";
+
+/**
+ * デッキの検証ルール。違反がなければ空配列を返す。
+ */
+export type DeckRule = (
+  cards: readonly DeckCard[],
+) => readonly DeckOperationError[];
+
+/**
+ * 種別ごとの枚数要件（min/max は両端を含む）
+ */
+export interface KindCountRequirement {
+  readonly kind: CardKind;
+  readonly min?: number;
+  readonly max?: number;
+}
+
+// デッキへ保持すること自体を拒否すべき違反
+const BLOCKING_ERROR_TYPES: ReadonlySet<DeckOperationErrorType> = new Set([
+  "CardNotFound",
+  "InvalidCardCount",
+  "MaxCountExceeded",
+]);
+
+const sumCounts = (cards: readonly DeckCard[]): number =>
+  cards.reduce((sum, c) => sum + c.count, 0);
+
+/**
+ * 各カードの枚数が 1 以上かつ物理的な上限（MAX_CARD_COPIES）以下であること
+ */
+export const cardCountRule: DeckRule = (cards) => {
+  const errors: DeckOperationError[] = [];
+  for (const deckCard of cards) {
+    if (deckCard.count < 1) {
+      errors.push(
+        new DeckOperationError({
+          type: "InvalidCardCount",
+          cardId: deckCard.card.id,
+          count: deckCard.count,
+        }),
+      );
+    }
+    if (deckCard.count > GAME_CONSTANTS.MAX_CARD_COPIES) {
+      errors.push(
+        new DeckOperationError({
+          type: "MaxCountExceeded",
+          cardId: deckCard.card.id,
+          maxCount: GAME_CONSTANTS.MAX_CARD_COPIES,
+          count: deckCard.count,
+        }),
+      );
+    }
+  }
+  return errors;
+};
+
+/**
+ * デッキの合計枚数が [min, max] に収まること
+ */
+export const createDeckSizeRule = (size: {
+  readonly min: number;
+  readonly max: number;
+}): DeckRule => {
+  return (cards) => {
+    const total = sumCounts(cards);
+    if (total > size.max) {
+      return [
+        new DeckOperationError({
+          type: "DeckSizeExceeded",
+          count: total,
+          maxCount: size.max,
+        }),
+      ];
+    }
+    if (total < size.min) {
+      return [
+        new DeckOperationError({
+          type: "DeckSizeInsufficient",
+          count: total,
+          minCount: size.min,
+        }),
+      ];
+    }
+    return [];
+  };
+};
+
+/**
+ * 指定種別のカード枚数が要件を満たすこと
+ */
+export const createKindCountRule = (
+  requirement: KindCountRequirement,
+): DeckRule => {
+  return (cards) => {
+    const matched = cards.filter((dc) => dc.card.kind === requirement.kind);
+    const count = sumCounts(matched);
+    const belowMin = requirement.min !== undefined && count < requirement.min;
+    const aboveMax = requirement.max !== undefined && count > requirement.max;
+    if (!belowMin && !aboveMax) return [];
+
+    return [
+      new DeckOperationError({
+        type: "KindCountOutOfRange",
+        kind: requirement.kind,
+        count,
+        ...(requirement.min !== undefined ? { minCount: requirement.min } : {}),
+        ...(requirement.max !== undefined ? { maxCount: requirement.max } : {}),
+        // 上限超過時のみ該当カードをハイライト対象とする
+        ...(aboveMax ? { cardIds: matched.map((dc) => dc.card.id) } : {}),
+      }),
+    ];
+  };
+};
+
+/**
+ * 禁止・制限カードの枚数制限を満たすこと
+ * @param limits カードID → 最大枚数（0 は禁止）
+ */
+export const createRestrictionRule = (
+  limits: ReadonlyMap<string, number>,
+): DeckRule => {
+  return (cards) => {
+    if (limits.size === 0) return [];
+
+    const errors: DeckOperationError[] = [];
+    for (const deckCard of cards) {
+      const limit = limits.get(deckCard.card.id);
+      if (limit === undefined) continue;
+      if (limit === 0) {
+        errors.push(
+          new DeckOperationError({
+            type: "BannedCard",
+            cardId: deckCard.card.id,
+            count: deckCard.count,
+          }),
+        );
+        continue;
+      }
+      if (deckCard.count > limit) {
+        errors.push(
+          new DeckOperationError({
+            type: "RestrictedCountExceeded",
+            cardId: deckCard.card.id,
+            maxCount: limit,
+            count: deckCard.count,
+          }),
+        );
+      }
+    }
+    return errors;
+  };
+};
+
+/**
+ * 既定のルールセット
+ */
+export const DEFAULT_DECK_RULES: readonly DeckRule[] = [
+  cardCountRule,
+  createDeckSizeRule({
+    min: GAME_CONSTANTS.MIN_DECK_SIZE,
+    max: GAME_CONSTANTS.MAX_DECK_SIZE,
+  }),
+  ...DECK_KIND_REQUIREMENTS.map(createKindCountRule),
+];
+
+/**
+ * ルールセットを適用して全ての違反を収集する
+ */
+export const validateDeck = (
+  cards: readonly DeckCard[],
+  rules: readonly DeckRule[] = DEFAULT_DECK_RULES,
+): readonly DeckOperationError[] => rules.flatMap((rule) => rule(cards));
+
+/**
+ * デッキとして保持すること自体を拒否すべき違反かどうか
+ */
+export const isBlockingDeckError = (error: DeckOperationError): boolean =>
+  BLOCKING_ERROR_TYPES.has(error.type);
+
+/**
+ * 違反の原因となったカードIDの集合（UI のハイライト用）
+ */
+export const collectViolatingCardIds = (
+  errors: readonly DeckOperationError[],
+): ReadonlySet<string> => {
+  const ids = new Set<string>();
+  for (const e of errors) {
+    if (e.cardId !== undefined) ids.add(e.cardId);
+    for (const id of e.cardIds ?? []) ids.add(id);
+  }
+  return ids;
+};
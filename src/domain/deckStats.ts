@@ -0,0 +1,81 @@
+/**
+ * @file デッキ統計のドメインロジック。
+ *
+ * - 種類/色/プレイタイプ/タグごとの枚数と割合、【登場条件】持ちの枚数を集計する
+ * - 枚数は同名カードの枚数（DeckCard.count）を含めて数える
+ * - 副作用を持たない純粋関数のみを提供する
+ */
+import { CARD_COLORS, CARD_KINDS, CARD_PLAY_TYPES } from "../constants";
+import type { Card, DeckCard, DeckStats, StatEntry } from "../types";
+
+const toEntry = (label: string, count: number, total: number): StatEntry => ({
+  label,
+  count,
+  ratio: total > 0 ? count / total : 0,
+});
+
+const countBy = (
+  cards: readonly DeckCard[],
+  predicate: (card: Card) => boolean,
+): number =>
+  cards.reduce((sum, dc) => (predicate(dc.card) ? sum + dc.count : sum), 0);
+
+/**
+ * タグごとの枚数（枚数の降順、同数は名前順）
+ */
+export const countTags = (
+  cards: readonly DeckCard[],
+): readonly { readonly tag: string; readonly count: number }[] => {
+  const counts = new Map<string, number>();
+  for (const dc of cards) {
+    for (const tag of new Set(dc.card.tags ?? [])) {
+      counts.set(tag, (counts.get(tag) ?? 0) + dc.count);
+    }
+  }
+  return [...counts]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag, "ja"));
+};
+
+/**
+ * デッキの統計情報を計算
+ * @param topTagCount 上位何件のタグを含めるか
+ */
+export const calculateDeckStats = (
+  cards: readonly DeckCard[],
+  topTagCount: number,
+): DeckStats => {
+  const total = cards.reduce((sum, dc) => sum + dc.count, 0);
+  return {
+    total,
+    byKind: CARD_KINDS.map((kind) =>
+      toEntry(
+        kind,
+        countBy(cards, (c) => c.kind === kind),
+        total,
+      ),
+    ),
+    byColor: CARD_COLORS.map((color) =>
+      toEntry(
+        color,
+        countBy(cards, (c) => c.type.includes(color)),
+        total,
+      ),
+    ),
+    byPlayType: CARD_PLAY_TYPES.map((playType) =>
+      toEntry(
+        playType,
+        countBy(cards, (c) => c.type.includes(playType)),
+        total,
+      ),
+    ),
+    topTags: countTags(cards)
+      .slice(0, Math.max(topTagCount, 0))
+      .map(({ tag, count }) => toEntry(tag, count, total)),
+    entryCondition: toEntry(
+      "登場条件",
+      countBy(cards, (c) => c.hasEntryCondition === true),
+      total,
+    ),
+  };
+};
@@ -0,0 +1,146 @@
+/**
+ * @file フィルター条件（FilterCriteria）の既定値・検証・比較。
+ *
+ * - プリセット/履歴の永続化や共有URLから読み込む値は FilterCriteriaSchema で検証する
+ * - 欠けた項目や不正な項目は既定値で補い、古い形式の保存データも読み込めるようにする
+ * - 履歴の重複判定のため、選択値の順序に依存しない比較を提供する
+ */
+import * as v from "valibot";
+import type { FilterCriteria, FilterPreset } from "../types";
+import { CardKindSchema, CardTypeSchema } from "./validation";
+
+// 直近の検索条件の保持件数
+export const MAX_RECENT_FILTERS = 10 as const;
+// プリセット名の最大長
+export const MAX_FILTER_PRESET_NAME_LENGTH = 40 as const;
+
+export const DEFAULT_FILTER_CRITERIA: FilterCriteria = {
+  text: "",
+  textScope: "all",
+  kind: [],
+  type: [],
+  typeMatchMode: "any",
+  tags: [],
+  tagMatchMode: "any",
+  hasEntryCondition: false,
+  onlyFavorites: false,
+};
+
+const MatchModeSchema = v.picklist(["any", "all", "none"]);
+
+// 重複を除いた配列（読み込み時に正規化）
+const uniqueArray = <T extends v.GenericSchema>(item: T) =>
+  v.pipe(
+    v.array(item),
+    v.transform((values) => [...new Set(values)]),
+  );
+
+export const FilterCriteriaSchema = v.object({
+  text: v.fallback(v.pipe(v.string(), v.trim()), DEFAULT_FILTER_CRITERIA.text),
+  textScope: v.fallback(
+    v.picklist(["name", "effect", "all"]),
+    DEFAULT_FILTER_CRITERIA.textScope,
+  ),
+  kind: v.fallback(uniqueArray(CardKindSchema), []),
+  type: v.fallback(uniqueArray(CardTypeSchema), []),
+  typeMatchMode: v.fallback(
+    MatchModeSchema,
+    DEFAULT_FILTER_CRITERIA.typeMatchMode,
+  ),
+  tags: v.fallback(uniqueArray(v.pipe(v.string(), v.nonEmpty())), []),
+  tagMatchMode: v.fallback(
+    MatchModeSchema,
+    DEFAULT_FILTER_CRITERIA.tagMatchMode,
+  ),
+  hasEntryCondition: v.fallback(v.boolean(), false),
+  onlyFavorites: v.fallback(v.boolean(), false),
+});
+
+export const FilterPresetSchema = v.object({
+  id: v.pipe(v.string(), v.nonEmpty()),
+  name: v.pipe(
+    v.string(),
+    v.trim(),
+    v.nonEmpty(),
+    v.maxLength(MAX_FILTER_PRESET_NAME_LENGTH),
+  ),
+  criteria: FilterCriteriaSchema,
+  createdAt: v.fallback(v.pipe(v.string(), v.isoTimestamp()), () =>
+    new Date(0).toISOString(),
+  ),
+});
+
+/**
+ * 値をフィルター条件として検証（オブジェクトでなければ null）
+ */
+export const parseFilterCriteria = (data: unknown): FilterCriteria | null => {
+  const parsed = v.safeParse(FilterCriteriaSchema, data);
+  return parsed.success ? parsed.output : null;
+};
+
+/**
+ * 値をプリセット一覧として検証（不正な要素は除外）
+ */
+export const parseFilterPresets = (data: unknown): readonly FilterPreset[] => {
+  if (!Array.isArray(data)) return [];
+  return data.flatMap((item) => {
+    const parsed = v.safeParse(FilterPresetSchema, item);
+    return parsed.success ? [parsed.output] : [];
+  });
+};
+
+/**
+ * 値を検索条件の履歴として検証（不正な要素は除外、上限件数まで）
+ */
+export const parseRecentFilters = (
+  data: unknown,
+): readonly FilterCriteria[] => {
+  if (!Array.isArray(data)) return [];
+  return data
+    .flatMap((item) => {
+      const criteria = parseFilterCriteria(item);
+      return criteria ? [criteria] : [];
+    })
+    .slice(0, MAX_RECENT_FILTERS);
+};
+
+const sameValues = (a: readonly string[], b: readonly string[]): boolean =>
+  a.length === b.length && a.every((value) => b.includes(value));
+
+/**
+ * 2つのフィルター条件が同じ絞り込みを表すか（選択値の順序は問わない）
+ */
+export const isSameFilterCriteria = (
+  a: FilterCriteria,
+  b: FilterCriteria,
+): boolean =>
+  a.text.trim() === b.text.trim() &&
+  a.textScope === b.textScope &&
+  sameValues(a.kind, b.kind) &&
+  sameValues(a.type, b.type) &&
+  a.typeMatchMode === b.typeMatchMode &&
+  sameValues(a.tags, b.tags) &&
+  a.tagMatchMode === b.tagMatchMode &&
+  a.hasEntryCondition === b.hasEntryCondition &&
+  a.onlyFavorites === b.onlyFavorites;
+
+const MATCH_MODE_LABELS = { any: "", all: "(すべて)", none: "(除外)" } as const;
+
+/**
+ * フィルター条件の短い説明（履歴・プリセットの表示用）
+ */
+export const describeFilterCriteria = (criteria: FilterCriteria): string => {
+  const parts = [
+    criteria.text.trim() ? `「${criteria.text.trim()}」` : "",
+    criteria.kind.join("/"),
+    criteria.type.length > 0
+      ? criteria.type.join("/") + MATCH_MODE_LABELS[criteria.typeMatchMode]
+      : "",
+    criteria.tags.length > 0
+      ? criteria.tags.join("/") + MATCH_MODE_LABELS[criteria.tagMatchMode]
+      : "",
+    criteria.hasEntryCondition ? "登場条件" : "",
+    criteria.onlyFavorites ? "お気に入り" : "",
+  ].filter((part) => part.length > 0);
+  return parts.length > 0 ? parts.join(" ") : "条件なし";
+};
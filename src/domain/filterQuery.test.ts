@@ -0,0 +1,226 @@
+/**
+ * カード検索クエリ言語のテスト（優先順位・否定・数値範囲・構文エラーの位置）。
+ */
+import { describe, expect, it } from "vitest";
+import {
+  FilterQueryError,
+  type Card,
+  type FilterCondition,
+  type FilterQueryErrorType,
+} from "../types";
+import {
+  collectTextConditions,
+  filterCardsByCondition,
+  parseFilterQuery,
+} from "./filterQuery";
+
+const text = (value: string): FilterCondition => ({
+  type: "text",
+  value,
+  scope: "all",
+});
+
+const CARDS: readonly Card[] = [
+  {
+    id: "AA-1",
+    name: "花譜",
+    kind: "Artist",
+    type: ["赤"],
+    effect: "【登場時効果】VOL+1。",
+    tags: ["Artistサーチ"],
+  },
+  {
+    id: "AS-5",
+    name: "不可解",
+    kind: "Song",
+    type: ["青"],
+    effect: "VOL+3。カードを1枚引く。",
+    tags: ["Songサーチ"],
+  },
+  {
+    id: "AM-12",
+    name: "魔法",
+    kind: "Magic",
+    type: ["赤", "青"],
+    effect: "相手のカードを1枚選ぶ。",
+  },
+];
+
+const ids = (query: string): readonly string[] => {
+  const condition = parseFilterQuery(query);
+  return condition
+    ? filterCardsByCondition(CARDS, condition).map((c) => c.id)
+    : CARDS.map((c) => c.id);
+};
+
+const parseError = (query: string): FilterQueryError => {
+  try {
+    parseFilterQuery(query);
+  } catch (e) {
+    expect(e).toBeInstanceOf(FilterQueryError);
+    return e as FilterQueryError;
+  }
+  return expect.fail(`FilterQueryError が送出されませんでした: ${query}`);
+};
+
+describe("parseFilterQuery", () => {
+  it("空白のみのクエリは null", () => {
+    expect(parseFilterQuery("  　")).toBeNull();
+  });
+
+  describe("優先順位とグループ化", () => {
+    it("AND は OR より強く結合する", () => {
+      expect(parseFilterQuery("a OR b c")).toEqual({
+        type: "any",
+        conditions: [
+          text("a"),
+          { type: "combined", conditions: [text("b"), text("c")] },
+        ],
+      });
+    });
+
+    it("明示的な AND は空白と同じ", () => {
+      expect(parseFilterQuery("a AND b")).toEqual(parseFilterQuery("a b"));
+    });
+
+    it("括弧で OR をまとめる", () => {
+      expect(parseFilterQuery("(a OR b) c")).toEqual({
+        type: "combined",
+        conditions: [
+          { type: "any", conditions: [text("a"), text("b")] },
+          text("c"),
+        ],
+      });
+    });
+
+    it("入れ子の括弧を評価する", () => {
+      expect(ids("kind:Magic OR (type:青 (tag:Songサーチ OR no:1))")).toEqual([
+        "AS-5",
+        "AM-12",
+      ]);
+    });
+
+    it("引用符で空白や記号を含む値を指定する", () => {
+      expect(parseFilterQuery('effect:"VOL+1。" "カードを 1枚"')).toEqual({
+        type: "combined",
+        conditions: [
+          { type: "text", value: "VOL+1。", scope: "effect" },
+          text("カードを 1枚"),
+        ],
+      });
+    });
+
+    it("フィールドなしの語は指定された検索範囲で検索する", () => {
+      expect(parseFilterQuery("花譜", "name")).toEqual({
+        type: "text",
+        value: "花譜",
+        scope: "name",
+      });
+    });
+  });
+
+  describe("否定", () => {
+    it("- と NOT で否定する", () => {
+      expect(parseFilterQuery("-kind:Song")).toEqual({
+        type: "not",
+        condition: { type: "kind", values: ["Song"] },
+      });
+      expect(ids("NOT kind:Song")).toEqual(["AA-1", "AM-12"]);
+    });
+
+    it("否定は直後の項・グループだけに掛かる", () => {
+      expect(ids("-(kind:Song OR kind:Magic) type:赤")).toEqual(["AA-1"]);
+      expect(ids("-kind:Song OR kind:Song")).toEqual(["AA-1", "AS-5", "AM-12"]);
+    });
+
+    it("二重否定は元に戻る", () => {
+      expect(ids("NOT -kind:Song")).toEqual(["AS-5"]);
+    });
+
+    it("語中の - は否定として扱わない", () => {
+      expect(parseFilterQuery("AA-1")).toEqual(text("AA-1"));
+    });
+
+    it("否定されたテキスト条件はハイライトの対象にしない", () => {
+      const condition = parseFilterQuery("花譜 -不可解 (魔法 OR VOL)")!;
+      expect(collectTextConditions(condition).map((c) => c.value)).toEqual([
+        "花譜",
+        "魔法",
+        "VOL",
+      ]);
+    });
+  });
+
+  describe("数値の比較と範囲", () => {
+    it.each<[string, { min?: number; max?: number }]>([
+      ["no:3", { min: 3, max: 3 }],
+      ["no:=3", { min: 3, max: 3 }],
+      ["no:>3", { min: 4 }],
+      ["no:>=3", { min: 3 }],
+      ["no:<3", { max: 2 }],
+      ["no:<=3", { max: 3 }],
+      ["no:1..10", { min: 1, max: 10 }],
+      ["no:10..", { min: 10 }],
+      ["no:..5", { max: 5 }],
+    ])("%s", (query, range) => {
+      expect(parseFilterQuery(query)).toEqual({
+        type: "range",
+        field: "no",
+        ...range,
+      });
+    });
+
+    it("no はカードIDの番号で比較する", () => {
+      expect(ids("no:>=5")).toEqual(["AS-5", "AM-12"]);
+      expect(ids("no:2..10")).toEqual(["AS-5"]);
+    });
+
+    it("vol は効果テキストの VOL+n の最大値で比較し、記載のないカードは除く", () => {
+      expect(ids("vol:>=2")).toEqual(["AS-5"]);
+      expect(ids("vol:..3")).toEqual(["AA-1", "AS-5"]);
+    });
+  });
+
+  describe("値の指定", () => {
+    it("カンマ区切りの値は OR", () => {
+      expect(ids("type:赤,青 kind:artist,song")).toEqual(["AA-1", "AS-5"]);
+    });
+
+    it("タグは大文字小文字を区別しない", () => {
+      expect(ids("tag:artistサーチ")).toEqual(["AA-1"]);
+    });
+  });
+
+  describe("構文エラー", () => {
+    it.each<[string, FilterQueryErrorType, number, number, string?]>([
+      ["a )", "UnexpectedToken", 2, 3, ")"],
+      ["OR a", "UnexpectedToken", 0, 2, "OR"],
+      ["a ()", "UnexpectedToken", 3, 4, ")"],
+      ["a (b", "UnclosedParen", 2, 3],
+      ["(", "UnclosedParen", 0, 1],
+      ['a "b c', "UnclosedQuote", 2, 6],
+      ['name:"b c', "UnclosedQuote", 5, 9],
+      ["a OR", "MissingOperand", 2, 4, "OR"],
+      ["(a AND) b", "MissingOperand", 3, 6, "AND"],
+      ["NOT", "MissingOperand", 0, 3, "NOT"],
+      ["a name:", "MissingOperand", 2, 7, "name:"],
+      ['""', "MissingOperand", 0, 2, '""'],
+      ["a foo:bar", "UnknownField", 2, 5],
+      ["kind:Foo", "InvalidValue", 0, 8, "Foo"],
+      ["type:赤,紫", "InvalidValue", 0, 8, "紫"],
+      ["tag:,", "InvalidValue", 0, 5, ","],
+      ["no:abc", "InvalidValue", 0, 6, "abc"],
+      ["no:5..1", "InvalidValue", 0, 7, "5..1"],
+      ["vol:..", "InvalidValue", 0, 6, ".."],
+    ])("%j は %s（%i〜%i）", (query, type, start, end, token) => {
+      const error = parseError(query);
+      expect(error).toMatchObject({ type, start, end });
+      if (token !== undefined) expect(error.token).toBe(token);
+    });
+
+    it("未知のフィールド名と、不正な値のフィールド名を報告する", () => {
+      expect(parseError("Foo:bar").field).toBe("Foo");
+      expect(parseError("vol:x").field).toBe("vol");
+    });
+  });
+});
@@ -0,0 +1,482 @@
+/**
+ * @file カード検索クエリ言語のパーサと評価器。
+ *
+ * 構文（例: `kind:Artist type:赤 -tag:進化 effect:"VOL+1" (tag:Artistサーチ OR tag:Songサーチ)`）
+ * - 空白区切りの項は AND（`AND` は省略可）、`OR` で論理和、`-` / `NOT` で否定、`( )` でグループ化
+ * - `field:value` でフィールド指定。値はカンマ区切りで OR（例: `type:赤,青`）
+ *   - name / effect: テキスト検索、kind / type / tag(s): 完全一致（大文字小文字は区別しない）
+ *   - no / vol: 数値範囲（`3`, `>=2`, `<5`, `1..10`, `10..`, `..5`）
+ * - フィールドなしの語は、指定された検索範囲（TextSearchScope）でのテキスト検索
+ * - `"..."` で空白や記号を含む値を指定できる
+ * 構文エラーは FilterQueryError（位置付きの構造化エラー）として投げる。
+ */
+import { CARD_KINDS, CARD_TYPES } from "../constants";
+import type {
+  Card,
+  CardKind,
+  CardType,
+  FilterCondition,
+  FilterRangeField,
+  TextFilterCondition,
+  TextSearchScope,
+} from "../types";
+import { FilterQueryError } from "../types";
+import { matchesSearchText, type CardSearchIndex } from "./card";
+
+type OperatorToken = {
+  readonly kind: "lparen" | "rparen" | "not" | "or" | "and";
+  readonly text: string;
+  readonly start: number;
+  readonly end: number;
+};
+type TermToken = {
+  readonly kind: "term";
+  readonly field: string | null;
+  readonly value: string;
+  readonly start: number;
+  readonly end: number;
+};
+type Token = OperatorToken | TermToken;
+
+const QUERY_FIELDS = [
+  "name",
+  "effect",
+  "kind",
+  "type",
+  "tag",
+  "tags",
+  "no",
+  "vol",
+] as const;
+type QueryField = (typeof QUERY_FIELDS)[number];
+
+const QUERY_FIELD_SET: ReadonlySet<string> = new Set(QUERY_FIELDS);
+
+const KEYWORD_OPERATORS: Readonly<Record<string, OperatorToken["kind"]>> = {
+  OR: "or",
+  AND: "and",
+  NOT: "not",
+};
+
+// 全角スペースも区切りとして扱う
+const isWhitespace = (ch: string): boolean => /\s/.test(ch);
+const isWordBoundary = (ch: string): boolean =>
+  isWhitespace(ch) || ch === "(" || ch === ")" || ch === '"';
+
+// --- 字句解析 ---
+
+const readQuoted = (
+  query: string,
+  start: number,
+): { value: string; end: number } => {
+  const close = query.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new FilterQueryError({
+      type: "UnclosedQuote",
+      start,
+      end: query.length,
+    });
+  }
+  return { value: query.slice(start + 1, close), end: close + 1 };
+};
+
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const ch = query.charAt(i);
+    if (isWhitespace(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === "(" || ch === ")") {
+      tokens.push({
+        kind: ch === "(" ? "lparen" : "rparen",
+        text: ch,
+        start: i,
+        end: i + 1,
+      });
+      i++;
+      continue;
+    }
+    // 項の先頭の "-" は否定（"AA-1" のような語中の "-" は対象外）
+    if (ch === "-" && i + 1 < query.length && !isWhitespace(query[i + 1]!)) {
+      tokens.push({ kind: "not", text: ch, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+    if (ch === '"') {
+      const { value, end } = readQuoted(query, i);
+      if (value.trim() === "") {
+        throw new FilterQueryError({
+          type: "MissingOperand",
+          start: i,
+          end,
+          token: query.slice(i, end),
+        });
+      }
+      tokens.push({ kind: "term", field: null, value, start: i, end });
+      i = end;
+      continue;
+    }
+
+    let end = i;
+    while (end < query.length && !isWordBoundary(query.charAt(end))) end++;
+    const word = query.slice(i, end);
+
+    const operator = KEYWORD_OPERATORS[word];
+    if (operator) {
+      tokens.push({ kind: operator, text: word, start: i, end });
+      i = end;
+      continue;
+    }
+
+    const colon = word.indexOf(":");
+    if (colon <= 0) {
+      tokens.push({ kind: "term", field: null, value: word, start: i, end });
+      i = end;
+      continue;
+    }
+
+    const field = word.slice(0, colon).toLowerCase();
+    if (!QUERY_FIELD_SET.has(field)) {
+      throw new FilterQueryError({
+        type: "UnknownField",
+        start: i,
+        end: i + colon,
+        field: word.slice(0, colon),
+      });
+    }
+    let value = word.slice(colon + 1);
+    if (value === "" && query.charAt(end) === '"') {
+      const quoted = readQuoted(query, end);
+      value = quoted.value;
+      end = quoted.end;
+    }
+    if (value.trim() === "") {
+      throw new FilterQueryError({
+        type: "MissingOperand",
+        start: i,
+        end,
+        token: query.slice(i, end),
+      });
+    }
+    tokens.push({ kind: "term", field, value, start: i, end });
+    i = end;
+  }
+  return tokens;
+};
+
+// --- 値の解釈 ---
+
+const invalidValue = (token: TermToken, value: string): FilterQueryError =>
+  new FilterQueryError({
+    type: "InvalidValue",
+    start: token.start,
+    end: token.end,
+    token: value,
+    ...(token.field !== null ? { field: token.field } : {}),
+  });
+
+const splitValues = (token: TermToken): string[] => {
+  const values = token.value
+    .split(",")
+    .map((v) => v.trim())
+    .filter((v) => v.length > 0);
+  if (values.length === 0) throw invalidValue(token, token.value);
+  return values;
+};
+
+const parseKinds = (token: TermToken): CardKind[] =>
+  splitValues(token).map((value) => {
+    const kind = CARD_KINDS.find(
+      (k) => k.toLowerCase() === value.toLowerCase(),
+    );
+    if (!kind) throw invalidValue(token, value);
+    return kind;
+  });
+
+const parseCardTypes = (token: TermToken): CardType[] =>
+  splitValues(token).map((value) => {
+    const cardType = CARD_TYPES.find((t) => t === value);
+    if (!cardType) throw invalidValue(token, value);
+    return cardType;
+  });
+
+const RANGE_PATTERN = /^(?:(>=|<=|>|<|=)?(\d+)|(\d*)\.\.(\d*))$/;
+
+const parseRange = (
+  token: TermToken,
+  field: FilterRangeField,
+): FilterCondition => {
+  const match = RANGE_PATTERN.exec(token.value.trim());
+  if (!match || (match[3] === "" && match[4] === "")) {
+    throw invalidValue(token, token.value);
+  }
+  if (match[2] !== undefined) {
+    const n = Number(match[2]);
+    switch (match[1]) {
+      case ">":
+        return { type: "range", field, min: n + 1 };
+      case ">=":
+        return { type: "range", field, min: n };
+      case "<":
+        return { type: "range", field, max: n - 1 };
+      case "<=":
+        return { type: "range", field, max: n };
+      default:
+        return { type: "range", field, min: n, max: n };
+    }
+  }
+  const min = match[3] ? Number(match[3]) : undefined;
+  const max = match[4] ? Number(match[4]) : undefined;
+  if (min !== undefined && max !== undefined && min > max) {
+    throw invalidValue(token, token.value);
+  }
+  return {
+    type: "range",
+    field,
+    ...(min !== undefined ? { min } : {}),
+    ...(max !== undefined ? { max } : {}),
+  };
+};
+
+const termToCondition = (
+  token: TermToken,
+  scope: TextSearchScope,
+): FilterCondition => {
+  if (token.field === null) {
+    return { type: "text", value: token.value, scope };
+  }
+  switch (token.field as QueryField) {
+    case "name":
+      return { type: "text", value: token.value, scope: "name" };
+    case "effect":
+      return { type: "text", value: token.value, scope: "effect" };
+    case "kind":
+      return { type: "kind", values: parseKinds(token) };
+    case "type":
+      return { type: "cardType", values: parseCardTypes(token) };
+    case "tag":
+    case "tags":
+      return { type: "tags", values: splitValues(token) };
+    case "no":
+      return parseRange(token, "no");
+    case "vol":
+      return parseRange(token, "vol");
+  }
+};
+
+// --- 構文解析（再帰下降） ---
+
+const createParser = (
+  query: string,
+  tokens: readonly Token[],
+  scope: TextSearchScope,
+) => {
+  let pos = 0;
+  const peek = (): Token | undefined => tokens[pos];
+
+  const unexpected = (token: Token): FilterQueryError =>
+    new FilterQueryError({
+      type: "UnexpectedToken",
+      start: token.start,
+      end: token.end,
+      token: query.slice(token.start, token.end),
+    });
+
+  // 演算子の後に被演算子が続くことを確認
+  const requireOperand = (operator: Token): void => {
+    const next = peek();
+    if (!next || next.kind === "rparen") {
+      throw new FilterQueryError({
+        type: "MissingOperand",
+        start: operator.start,
+        end: operator.end,
+        token: query.slice(operator.start, operator.end),
+      });
+    }
+  };
+
+  const parsePrimary = (): FilterCondition => {
+    const token = tokens[pos++]!;
+    switch (token.kind) {
+      case "term":
+        return termToCondition(token, scope);
+      case "lparen": {
+        const first = peek();
+        if (!first) {
+          throw new FilterQueryError({
+            type: "UnclosedParen",
+            start: token.start,
+            end: token.end,
+          });
+        }
+        if (first.kind === "rparen") throw unexpected(first);
+        const inner = parseOr();
+        if (peek()?.kind !== "rparen") {
+          throw new FilterQueryError({
+            type: "UnclosedParen",
+            start: token.start,
+            end: token.end,
+          });
+        }
+        pos++;
+        return inner;
+      }
+      default:
+        throw unexpected(token);
+    }
+  };
+
+  const parseUnary = (): FilterCondition => {
+    const token = peek()!;
+    if (token.kind !== "not") return parsePrimary();
+    pos++;
+    requireOperand(token);
+    return { type: "not", condition: parseUnary() };
+  };
+
+  const parseAnd = (): FilterCondition => {
+    const conditions = [parseUnary()];
+    for (let next = peek(); next; next = peek()) {
+      if (next.kind === "and") {
+        pos++;
+        requireOperand(next);
+      } else if (next.kind === "or" || next.kind === "rparen") {
+        break;
+      }
+      conditions.push(parseUnary());
+    }
+    return conditions.length === 1
+      ? conditions[0]!
+      : { type: "combined", conditions };
+  };
+
+  const parseOr = (): FilterCondition => {
+    const conditions = [parseAnd()];
+    for (let next = peek(); next?.kind === "or"; next = peek()) {
+      pos++;
+      requireOperand(next);
+      conditions.push(parseAnd());
+    }
+    return conditions.length === 1
+      ? conditions[0]!
+      : { type: "any", conditions };
+  };
+
+  const parseQuery = (): FilterCondition => {
+    const first = peek()!;
+    if (first.kind === "or" || first.kind === "and") throw unexpected(first);
+    const condition = parseOr();
+    const rest = peek();
+    if (rest) throw unexpected(rest);
+    return condition;
+  };
+
+  return { parseQuery };
+};
+
+/**
+ * 検索クエリを FilterCondition の木に変換
+ * @param scope フィールド指定のない語の検索範囲
+ * @returns 空のクエリは null
+ * @throws FilterQueryError 構文エラー
+ */
+export const parseFilterQuery = (
+  query: string,
+  scope: TextSearchScope = "all",
+): FilterCondition | null => {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) return null;
+  return createParser(query, tokens, scope).parseQuery();
+};
+
+// --- 評価 ---
+
+const VOL_GAIN_PATTERN = /VOL\+(\d+)/g;
+
+const getRangeFieldValue = (
+  card: Card,
+  field: FilterRangeField,
+): number | undefined => {
+  switch (field) {
+    case "no": {
+      const n = Number(card.id.slice(card.id.lastIndexOf("-") + 1));
+      return Number.isInteger(n) ? n : undefined;
+    }
+    case "vol": {
+      const gains = [...(card.effect ?? "").matchAll(VOL_GAIN_PATTERN)].map(
+        (m) => Number(m[1]),
+      );
+      return gains.length > 0 ? Math.max(...gains) : undefined;
+    }
+  }
+};
+
+/**
+ * カードが条件を満たすか
+ * @param index テキスト条件の判定に使う検索インデックス（省略時はその場で正規化）
+ */
+export const matchesFilterCondition = (
+  card: Card,
+  condition: FilterCondition,
+  index?: CardSearchIndex,
+): boolean => {
+  switch (condition.type) {
+    case "text":
+      return matchesSearchText(card, condition.value, condition.scope, index);
+    case "kind":
+      return condition.values.includes(card.kind);
+    case "cardType":
+      return card.type.some((t) => condition.values.includes(t));
+    case "tags": {
+      const wanted = condition.values.map((t) => t.toLowerCase());
+      return (card.tags ?? []).some((t) => wanted.includes(t.toLowerCase()));
+    }
+    case "range": {
+      const value = getRangeFieldValue(card, condition.field);
+      if (value === undefined) return false;
+      if (condition.min !== undefined && value < condition.min) return false;
+      if (condition.max !== undefined && value > condition.max) return false;
+      return true;
+    }
+    case "combined":
+      return condition.conditions.every((c) =>
+        matchesFilterCondition(card, c, index),
+      );
+    case "any":
+      return condition.conditions.some((c) =>
+        matchesFilterCondition(card, c, index),
+      );
+    case "not":
+      return !matchesFilterCondition(card, condition.condition, index);
+  }
+};
+
+/**
+ * 条件を満たすカードを抽出
+ */
+export const filterCardsByCondition = (
+  cards: readonly Card[],
+  condition: FilterCondition,
+  index?: CardSearchIndex,
+): readonly Card[] =>
+  cards.filter((card) => matchesFilterCondition(card, condition, index));
+
+/**
+ * ハイライト対象となるテキスト条件（否定されていないもの）を収集
+ */
+export const collectTextConditions = (
+  condition: FilterCondition,
+): readonly TextFilterCondition[] => {
+  switch (condition.type) {
+    case "text":
+      return [condition];
+    case "combined":
+    case "any":
+      return condition.conditions.flatMap(collectTextConditions);
+    default:
+      return [];
+  }
+};
@@ -0,0 +1,142 @@
+/**
+ * @file プレイフォーマットのドメインロジック。
+ *
+ * - フォーマット定義（スタンダード/エクストラ/カジュアル）
+ * - フォーマットに応じたカードプール判定、最大枚数の解決、検証ルールの合成
+ * - 副作用を持たない純粋関数のみを提供する
+ */
+import { DECK_KIND_REQUIREMENTS, GAME_CONSTANTS } from "../constants";
+import type { Card, Format, FormatId, RestrictionList } from "../types";
+import { DeckOperationError } from "../types/deck";
+import {
+  cardCountRule,
+  createDeckSizeRule,
+  createKindCountRule,
+  createRestrictionRule,
+  type DeckRule,
+} from "./deckRules";
+import { getCardCopyLimit, type CopyLimitResolver } from "./restriction";
+import { isExPrmCardId } from "./sort";
+
+export const FORMATS: readonly Format[] = [
+  {
+    id: "standard",
+    name: "スタンダード",
+    deckSize: {
+      min: GAME_CONSTANTS.MIN_DECK_SIZE,
+      max: GAME_CONSTANTS.MAX_DECK_SIZE,
+    },
+    maxCopies: GAME_CONSTANTS.MAX_CARD_COPIES,
+    cardPool: "excludeExPrm",
+    useRestrictionList: true,
+    kindRequirements: DECK_KIND_REQUIREMENTS,
+  },
+  {
+    id: "extra",
+    name: "エクストラ",
+    deckSize: {
+      min: GAME_CONSTANTS.MIN_DECK_SIZE,
+      max: GAME_CONSTANTS.MAX_DECK_SIZE,
+    },
+    maxCopies: GAME_CONSTANTS.MAX_CARD_COPIES,
+    cardPool: "all",
+    useRestrictionList: true,
+    kindRequirements: DECK_KIND_REQUIREMENTS,
+  },
+  {
+    id: "casual",
+    name: "カジュアル",
+    deckSize: { min: 0, max: GAME_CONSTANTS.MAX_DECK_SIZE },
+    maxCopies: GAME_CONSTANTS.MAX_CARD_COPIES,
+    cardPool: "all",
+    useRestrictionList: false,
+    kindRequirements: [],
+  },
+];
+
+// フォーマット導入前と同じ判定（全カード・制限リスト適用）を既定とし、
+// 既存のデッキや保存デッキが利用者の選択なしに違反とならないようにする
+export const DEFAULT_FORMAT_ID: FormatId = "extra";
+
+const FORMAT_BY_ID: ReadonlyMap<FormatId, Format> = new Map(
+  FORMATS.map((f) => [f.id, f] as const),
+);
+
+/**
+ * IDからフォーマットを取得（未知のIDは既定フォーマット）
+ */
+export const getFormatById = (id: string): Format =>
+  FORMAT_BY_ID.get(id as FormatId) ?? FORMAT_BY_ID.get(DEFAULT_FORMAT_ID)!;
+
+/**
+ * 文字列がフォーマットIDかどうか
+ */
+export const isFormatId = (id: string): id is FormatId =>
+  FORMAT_BY_ID.has(id as FormatId);
+
+/**
+ * カードがフォーマットのカードプールに含まれるかどうか
+ */
+export const isCardLegalInFormat = (format: Format, card: Card): boolean => {
+  switch (format.cardPool) {
+    case "excludeExPrm":
+      return !isExPrmCardId(card.id);
+    case "all":
+      return true;
+  }
+};
+
+/**
+ * カードプールに含まれるカードのみを抽出
+ */
+export const filterCardsByFormat = (
+  format: Format,
+  cards: readonly Card[],
+): readonly Card[] => {
+  if (format.cardPool === "all") return cards;
+  return cards.filter((card) => isCardLegalInFormat(format, card));
+};
+
+/**
+ * カードプール外のカードを違反として検出するルール
+ */
+export const createCardPoolRule = (format: Format): DeckRule => {
+  return (cards) =>
+    cards
+      .filter((dc) => !isCardLegalInFormat(format, dc.card))
+      .map(
+        (dc) =>
+          new DeckOperationError({ type: "NotInFormat", cardId: dc.card.id }),
+      );
+};
+
+/**
+ * フォーマットと制限リストからカードごとの最大枚数を解決する関数を生成
+ */
+export const createFormatCopyLimitResolver = (
+  format: Format,
+  restrictionList: RestrictionList,
+): CopyLimitResolver => {
+  return (cardId) => {
+    const restricted = format.useRestrictionList
+      ? getCardCopyLimit(restrictionList, cardId)
+      : GAME_CONSTANTS.MAX_CARD_COPIES;
+    return Math.min(format.maxCopies, restricted);
+  };
+};
+
+/**
+ * フォーマットの検証ルールセットを合成
+ */
+export const createFormatRules = (
+  format: Format,
+  restrictionList: RestrictionList,
+): readonly DeckRule[] => [
+  cardCountRule,
+  createDeckSizeRule(format.deckSize),
+  createCardPoolRule(format),
+  ...format.kindRequirements.map(createKindCountRule),
+  ...(format.useRestrictionList
+    ? [createRestrictionRule(restrictionList.limits)]
+    : []),
+];
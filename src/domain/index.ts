@@ -1,4 +1,14 @@
 export * from "./deck";
+export * from "./deckRules";
+export * from "./restriction";
 export * from "./card";
 export * from "./sort";
 export * from "./validation";
+export * from "./format";
+export * from "./probability";
+export * from "./random";
+export * from "./simulator";
+export * from "./deckStats";
+export * from "./resourceBalance";
+export * from "./filterQuery";
+export * from "./filterCriteria";
@@ -0,0 +1,115 @@
+/**
+ * @file ドロー確率（超幾何分布）のドメインロジック。
+ *
+ * - デッキ（DeckCard[]）から条件に一致するカード枚数を数える
+ * - N 枚引いたときに一致カードを k 枚以上引く確率を求める
+ * - 副作用を持たない純粋関数のみを提供する
+ */
+import type { Card, CardQuery, DeckCard, DrawProbability } from "../types";
+
+/**
+ * カードが条件に一致するかどうか
+ */
+export const matchesCardQuery = (card: Card, query: CardQuery): boolean => {
+  if (query.cardId !== undefined && card.id !== query.cardId) return false;
+  if (query.kind !== undefined && card.kind !== query.kind) return false;
+  if (query.cardType !== undefined && !card.type.includes(query.cardType)) {
+    return false;
+  }
+  if (query.tag !== undefined && !(card.tags ?? []).includes(query.tag)) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * 条件に一致するカードの合計枚数
+ */
+export const countMatchingCards = (
+  cards: readonly DeckCard[],
+  query: CardQuery,
+): number =>
+  cards.reduce(
+    (sum, dc) => (matchesCardQuery(dc.card, query) ? sum + dc.count : sum),
+    0,
+  );
+
+/**
+ * 二項係数 C(n, k)。範囲外は 0。
+ */
+export const binomial = (n: number, k: number): number => {
+  if (k < 0 || k > n) return 0;
+  const r = Math.min(k, n - k);
+  let result = 1;
+  for (let i = 1; i <= r; i++) {
+    result = (result * (n - r + i)) / i;
+  }
+  return result;
+};
+
+/**
+ * 超幾何分布の確率質量関数
+ * @param population 母集団の大きさ（デッキ枚数）
+ * @param successes 母集団中の当たりの数（一致カード枚数）
+ * @param draws 引く枚数
+ * @param k 引いた中の当たりの数
+ */
+export const hypergeometricPmf = (
+  population: number,
+  successes: number,
+  draws: number,
+  k: number,
+): number => {
+  const total = binomial(population, draws);
+  if (total === 0) return 0;
+  return (
+    (binomial(successes, k) * binomial(population - successes, draws - k)) /
+    total
+  );
+};
+
+/**
+ * 当たりを k 枚以上引く確率
+ */
+export const hypergeometricAtLeast = (
+  population: number,
+  successes: number,
+  draws: number,
+  k: number,
+): number => {
+  if (k <= 0) return 1;
+  const upper = Math.min(successes, draws);
+  let p = 0;
+  for (let i = k; i <= upper; i++) {
+    p += hypergeometricPmf(population, successes, draws, i);
+  }
+  // 浮動小数点誤差で [0, 1] を外れないように丸める
+  return Math.min(Math.max(p, 0), 1);
+};
+
+/**
+ * デッキから N 枚引いたとき、条件に一致するカードを k 枚以上引く確率
+ */
+export const calculateDrawProbability = (
+  cards: readonly DeckCard[],
+  query: CardQuery,
+  draws: number,
+  atLeast: number,
+): DrawProbability => {
+  const deckSize = cards.reduce((sum, dc) => sum + dc.count, 0);
+  const matchCount = countMatchingCards(cards, query);
+  const clampedDraws = Math.min(Math.max(Math.floor(draws), 0), deckSize);
+  const clampedAtLeast = Math.max(Math.floor(atLeast), 0);
+  return {
+    deckSize,
+    matchCount,
+    draws: clampedDraws,
+    atLeast: clampedAtLeast,
+    probability: hypergeometricAtLeast(
+      deckSize,
+      matchCount,
+      clampedDraws,
+      clampedAtLeast,
+    ),
+  };
+};
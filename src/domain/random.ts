@@ -0,0 +1,43 @@
+/**
+ * @file シード指定可能な疑似乱数生成器。
+ *
+ * - 同じシードからは常に同じ乱数列を生成する（シミュレーション結果の再現用）
+ * - 暗号用途には使用しない
+ */
+
+/**
+ * [0, 1) の乱数を返す関数
+ */
+export type Rng = () => number;
+
+/**
+ * シードから乱数生成器を生成（mulberry32）
+ */
+export const createSeededRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * 新しいシードを生成（32bit 符号なし整数）
+ */
+export const generateSeed = (): number =>
+  Math.floor(Math.random() * 4294967296) >>> 0;
+
+/**
+ * 配列をシャッフルした新しい配列を返す（Fisher–Yates）
+ */
+export const shuffle = <T>(items: readonly T[], rng: Rng): readonly T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j]!, result[i]!];
+  }
+  return result;
+};
@@ -0,0 +1,75 @@
+/**
+ * @file 魔力（α/β/Ω）・VOL の生成/消費バランス分析。
+ *
+ * - カードのタグ（PRIORITY_TAGS の「魔力とVOL」）から、リソースごとに
+ *   生成するカード・消費するカード・保有数を参照するカードを数える
+ * - 「消失」「VOLノイズ」は相手のリソースへの干渉のため集計対象外
+ * - 消費/参照するのに生成手段がないリソースを unsupported として報告する
+ */
+import type { DeckCard, ResourceBalance, ResourceKind } from "../types";
+
+interface ResourceTagRule {
+  readonly resource: ResourceKind;
+  readonly producerTags: readonly string[];
+  readonly consumerTags: readonly string[];
+  readonly referrerTags: readonly string[];
+}
+
+const RESOURCE_TAG_RULES: readonly ResourceTagRule[] = [
+  {
+    resource: "魔力α",
+    producerTags: ["【登場】魔力α生成", "【能力】魔力α生成"],
+    consumerTags: ["魔力α消費"],
+    referrerTags: ["魔力α参照"],
+  },
+  {
+    resource: "魔力β",
+    producerTags: ["【登場】魔力β生成", "【能力】魔力β生成"],
+    consumerTags: ["魔力β消費"],
+    referrerTags: ["魔力β参照"],
+  },
+  {
+    resource: "魔力Ω",
+    producerTags: ["【登場】魔力Ω生成", "【能力】魔力Ω生成"],
+    consumerTags: ["魔力Ω消費"],
+    referrerTags: ["魔力Ω参照"],
+  },
+  {
+    resource: "VOL",
+    producerTags: ["【登場】VOL獲得", "【能力】VOL獲得"],
+    consumerTags: ["VOL消費"],
+    referrerTags: [],
+  },
+];
+
+// いずれかのタグを持つカードの枚数
+const countCardsWithAnyTag = (
+  cards: readonly DeckCard[],
+  tags: readonly string[],
+): number => {
+  if (tags.length === 0) return 0;
+  return cards.reduce(
+    (sum, dc) =>
+      (dc.card.tags ?? []).some((t) => tags.includes(t)) ? sum + dc.count : sum,
+    0,
+  );
+};
+
+/**
+ * リソースごとの生成/消費バランスを計算
+ */
+export const analyzeResourceBalance = (
+  cards: readonly DeckCard[],
+): readonly ResourceBalance[] =>
+  RESOURCE_TAG_RULES.map((rule) => {
+    const producers = countCardsWithAnyTag(cards, rule.producerTags);
+    const consumers = countCardsWithAnyTag(cards, rule.consumerTags);
+    const referrers = countCardsWithAnyTag(cards, rule.referrerTags);
+    return {
+      resource: rule.resource,
+      producers,
+      consumers,
+      referrers,
+      unsupported: producers === 0 && consumers + referrers > 0,
+    };
+  });
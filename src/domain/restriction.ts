@@ -0,0 +1,52 @@
+/**
+ * @file 制限カード（禁止・制限）リストのドメインロジック。
+ *
+ * - カードごとの最大枚数（コピー上限）の解決
+ * - カードの制限状態（なし/禁止/制限）の判定
+ * - 上限は常に GAME_CONSTANTS.MAX_CARD_COPIES を超えない
+ */
+import { GAME_CONSTANTS } from "../constants";
+import type { RestrictionList, RestrictionStatus } from "../types";
+
+/**
+ * カードID → 最大枚数を返す関数
+ */
+export type CopyLimitResolver = (cardId: string) => number;
+
+export const EMPTY_RESTRICTION_LIST: RestrictionList = {
+  version: "",
+  limits: new Map(),
+};
+
+/**
+ * 制限リストを考慮しない既定の上限
+ */
+export const defaultCopyLimit: CopyLimitResolver = () =>
+  GAME_CONSTANTS.MAX_CARD_COPIES;
+
+/**
+ * 制限リストに基づいてカードの最大枚数を返す
+ */
+export const getCardCopyLimit = (
+  list: RestrictionList,
+  cardId: string,
+): number => {
+  const limit = list.limits.get(cardId);
+  if (limit === undefined) return GAME_CONSTANTS.MAX_CARD_COPIES;
+  return Math.min(limit, GAME_CONSTANTS.MAX_CARD_COPIES);
+};
+
+/**
+ * カードの制限状態を判定する
+ */
+export const getRestrictionStatus = (
+  list: RestrictionList,
+  cardId: string,
+): RestrictionStatus => {
+  const limit = list.limits.get(cardId);
+  if (limit === undefined || limit >= GAME_CONSTANTS.MAX_CARD_COPIES) {
+    return { type: "none" };
+  }
+  if (limit === 0) return { type: "banned" };
+  return { type: "limited", maxCount: limit };
+};
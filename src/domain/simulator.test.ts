@@ -0,0 +1,144 @@
+/**
+ * 手札シミュレーターのテスト（シード固定による再現性と、超幾何分布との整合）。
+ */
+import { describe, expect, it } from "vitest";
+import type { Card, DeckCard } from "../types";
+import {
+  calculateDrawProbability,
+  hypergeometricAtLeast,
+  hypergeometricPmf,
+} from "./probability";
+import { createSeededRng } from "./random";
+import {
+  drawCards,
+  estimatePlayableArtistRate,
+  expandDeckCards,
+  isPlayableArtist,
+  mulligan,
+  startSimulation,
+} from "./simulator";
+
+const HAND_SIZE = 5;
+const SEED = 20240601;
+const TRIALS = 20000;
+// 試行回数 20000 での標準誤差（高々 0.0036）の約4倍
+const TOLERANCE = 0.015;
+
+const card = (id: string, overrides: Partial<Card> = {}): Card => ({
+  id,
+  name: id,
+  kind: "Artist",
+  type: ["赤"],
+  ...overrides,
+});
+
+// 40枚: 登場可能なアーティスト 8枚、登場条件付きアーティスト 4枚、ソング 28枚
+const DECK: readonly DeckCard[] = [
+  { card: card("AA-1"), count: 4 },
+  { card: card("AA-2"), count: 4 },
+  { card: card("AA-3", { hasEntryCondition: true }), count: 4 },
+  ...Array.from({ length: 7 }, (_, i) => ({
+    card: card(`AS-${i + 1}`, { kind: "Song" }),
+    count: 4,
+  })),
+];
+const DECK_SIZE = 40;
+const PLAYABLE_ARTISTS = 8;
+
+const ids = (cards: readonly Card[]): string[] => cards.map((c) => c.id);
+
+describe("startSimulation / mulligan", () => {
+  it("同じシードなら初期手札とマリガン後の手札は毎回同じ", () => {
+    const run = () => {
+      const rng = createSeededRng(SEED);
+      const opening = startSimulation(DECK, HAND_SIZE, rng);
+      const mulliganed = mulligan(opening, HAND_SIZE, rng);
+      return { opening, mulliganed };
+    };
+    const first = run();
+    const second = run();
+
+    expect(ids(second.opening.hand)).toEqual(ids(first.opening.hand));
+    expect(ids(second.opening.library)).toEqual(ids(first.opening.library));
+    expect(ids(second.mulliganed.hand)).toEqual(ids(first.mulliganed.hand));
+    expect(second.mulliganed.mulligans).toBe(1);
+  });
+
+  it("シードが異なれば山札の並びも異なる", () => {
+    const a = startSimulation(DECK, HAND_SIZE, createSeededRng(SEED));
+    const b = startSimulation(DECK, HAND_SIZE, createSeededRng(SEED + 1));
+    expect(ids([...a.hand, ...a.library])).not.toEqual(
+      ids([...b.hand, ...b.library]),
+    );
+  });
+
+  it("マリガンとドローでカードは増減しない", () => {
+    const rng = createSeededRng(SEED);
+    const state = drawCards(
+      mulligan(startSimulation(DECK, HAND_SIZE, rng), HAND_SIZE, rng),
+      3,
+    );
+    expect(state.hand).toHaveLength(HAND_SIZE + 3);
+    expect(ids([...state.hand, ...state.library]).sort()).toEqual(
+      ids(expandDeckCards(DECK)).sort(),
+    );
+  });
+
+  it("山札より多くは引けない", () => {
+    const state = startSimulation(DECK, DECK_SIZE + 10, createSeededRng(SEED));
+    expect(state.hand).toHaveLength(DECK_SIZE);
+    expect(state.library).toHaveLength(0);
+  });
+});
+
+describe("超幾何分布との整合", () => {
+  it("初期手札の登場可能なアーティストの枚数の頻度は超幾何分布に近い", () => {
+    const rng = createSeededRng(SEED);
+    const frequencies = Array<number>(HAND_SIZE + 1).fill(0);
+    for (let i = 0; i < TRIALS; i++) {
+      const { hand } = startSimulation(DECK, HAND_SIZE, rng);
+      frequencies[hand.filter(isPlayableArtist).length]! += 1;
+    }
+    frequencies.forEach((count, k) => {
+      expect(
+        Math.abs(
+          count / TRIALS -
+            hypergeometricPmf(DECK_SIZE, PLAYABLE_ARTISTS, HAND_SIZE, k),
+        ),
+        `${k}枚`,
+      ).toBeLessThan(TOLERANCE);
+    });
+  });
+
+  it("estimatePlayableArtistRate は1枚以上引く確率に近く、シードごとに再現する", () => {
+    const options = { handSize: HAND_SIZE, trials: TRIALS, seed: SEED };
+    const rate = estimatePlayableArtistRate(DECK, options);
+    // 登場条件付きのアーティストを除いた枚数で計算した確率と比べる
+    const expected = hypergeometricAtLeast(
+      DECK_SIZE,
+      PLAYABLE_ARTISTS,
+      HAND_SIZE,
+      1,
+    );
+    expect(Math.abs(rate - expected)).toBeLessThan(TOLERANCE);
+    expect(estimatePlayableArtistRate(DECK, options)).toBe(rate);
+
+    // 登場条件付きも含めたアーティスト全体の確率とは区別される
+    const allArtists = calculateDrawProbability(
+      DECK,
+      { kind: "Artist" },
+      HAND_SIZE,
+      1,
+    ).probability;
+    expect(allArtists - rate).toBeGreaterThan(TOLERANCE);
+  });
+
+  it("デッキが空または試行回数が 0 なら 0", () => {
+    expect(
+      estimatePlayableArtistRate([], { handSize: 5, trials: 10, seed: SEED }),
+    ).toBe(0);
+    expect(
+      estimatePlayableArtistRate(DECK, { handSize: 5, trials: 0, seed: SEED }),
+    ).toBe(0);
+  });
+});
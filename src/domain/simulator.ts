@@ -0,0 +1,92 @@
+/**
+ * @file 手札シミュレーター（一人回し）のドメインロジック。
+ *
+ * - デッキ（DeckCard[]）を展開・シャッフルした山札から手札を引く
+ * - ドロー/マリガン/リセットは新しい状態を返す純粋関数（乱数は Rng で注入）
+ * - 試行を繰り返して、手札に登場可能なアーティストが含まれる割合を推定する
+ */
+import type { Card, DeckCard, SimulatorState } from "../types";
+import { createSeededRng, shuffle, type Rng } from "./random";
+
+/**
+ * デッキを枚数分のカード配列に展開
+ */
+export const expandDeckCards = (cards: readonly DeckCard[]): readonly Card[] =>
+  cards.flatMap((dc) => Array<Card>(dc.count).fill(dc.card));
+
+/**
+ * 山札から手札へ n 枚引く（山札が足りなければ引けるだけ引く）
+ */
+export const drawCards = (state: SimulatorState, n: number): SimulatorState => {
+  const count = Math.min(Math.max(Math.floor(n), 0), state.library.length);
+  if (count === 0) return state;
+  return {
+    ...state,
+    hand: [...state.hand, ...state.library.slice(0, count)],
+    library: state.library.slice(count),
+  };
+};
+
+/**
+ * 山札をシャッフルして初期手札を引いた状態を生成（リセット）
+ */
+export const startSimulation = (
+  cards: readonly DeckCard[],
+  handSize: number,
+  rng: Rng,
+): SimulatorState =>
+  drawCards(
+    {
+      library: shuffle(expandDeckCards(cards), rng),
+      hand: [],
+      mulligans: 0,
+    },
+    handSize,
+  );
+
+/**
+ * 手札をすべて山札に戻してシャッフルし、引き直す
+ */
+export const mulligan = (
+  state: SimulatorState,
+  handSize: number,
+  rng: Rng,
+): SimulatorState =>
+  drawCards(
+    {
+      library: shuffle([...state.library, ...state.hand], rng),
+      hand: [],
+      mulligans: state.mulligans + 1,
+    },
+    handSize,
+  );
+
+/**
+ * 【登場条件】を持たず、そのまま登場させられるアーティストかどうか
+ */
+export const isPlayableArtist = (card: Card): boolean =>
+  card.kind === "Artist" && !card.hasEntryCondition;
+
+/**
+ * 手札に登場可能なアーティストが含まれる割合を試行により推定
+ * @returns 0〜1 の割合（試行回数が 0 またはデッキが空の場合は 0）
+ */
+export const estimatePlayableArtistRate = (
+  cards: readonly DeckCard[],
+  options: {
+    readonly handSize: number;
+    readonly trials: number;
+    readonly seed: number;
+  },
+): number => {
+  const deck = expandDeckCards(cards);
+  if (deck.length === 0 || options.trials <= 0) return 0;
+
+  const rng = createSeededRng(options.seed);
+  let hits = 0;
+  for (let i = 0; i < options.trials; i++) {
+    const hand = shuffle(deck, rng).slice(0, options.handSize);
+    if (hand.some(isPlayableArtist)) hits++;
+  }
+  return hits / options.trials;
+};
@@ -67,6 +67,12 @@ const typeSort = createTypeSort();
 // ex/prm で始まるID検出用（大文字小文字無視）
 const EX_PRM_ID_RE = /^(?:ex|prm)/i;
 
+/**
+ * ex/prm で始まるIDのカードかどうか
+ */
+export const isExPrmCardId = (cardId: string): boolean =>
+  EX_PRM_ID_RE.test(cardId);
+
 /**
  * カードの標準比較関数（種類 → タイプ → ex/prm 末尾ルール → IDの順）
  */
@@ -81,8 +87,8 @@ export const compareCards = (a: Card, b: Card): number => {
   if (typeComparison !== 0) return typeComparison;
 
   // ex/prm で始まるIDは末尾へ
-  const aExPrm = EX_PRM_ID_RE.test(a.id);
-  const bExPrm = EX_PRM_ID_RE.test(b.id);
+  const aExPrm = isExPrmCardId(a.id);
+  const bExPrm = isExPrmCardId(b.id);
   if (aExPrm !== bExPrm) return aExPrm ? 1 : -1;
 
   // IDで比較（ex/prm 末尾ルール適用後、自然順ソート）
@@ -0,0 +1,31 @@
+/**
+ * テスト用の Storage（localStorage の代わり）と旧永続化先のデータ。
+ */
+import { LEGACY_STORAGE_KEYS } from "../legacyStorageMigration";
+
+export const createStorage = (entries: Record<string, string>): Storage => {
+  const items = new Map(Object.entries(entries));
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+  };
+};
+
+export const LEGACY_ENTRIES = {
+  [LEGACY_STORAGE_KEYS.DECK_CARDS]: JSON.stringify([{ id: "AA-1", count: 2 }]),
+  [LEGACY_STORAGE_KEYS.DECK_NAME]: "旧デッキ",
+  [LEGACY_STORAGE_KEYS.SAVED_DECKS]: JSON.stringify([
+    { name: "保存デッキ", code: "KCG-rDLXC" },
+  ]),
+  [LEGACY_STORAGE_KEYS.FAVORITE_CARDS]: JSON.stringify(["AA-1"]),
+};
@@ -0,0 +1,101 @@
+/**
+ * バックアップの検証と復元結果（フィルター条件のプリセット・直近の検索条件）のテスト。
+ */
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FILTER_CRITERIA } from "../domain";
+import type { FilterPreset } from "../types";
+import {
+  createBackupDocument,
+  parseBackupDocument,
+  planBackupRestore,
+  type BackupData,
+} from "./backup";
+
+const EXPORTED_AT = "2024-06-01T00:00:00.000Z";
+
+const preset = (id: string, name: string, text: string): FilterPreset => ({
+  id,
+  name,
+  criteria: { ...DEFAULT_FILTER_CRITERIA, text },
+  createdAt: EXPORTED_AT,
+});
+
+const data = (overrides: Partial<BackupData> = {}): BackupData => ({
+  workingDeck: { cards: [], name: "デッキ", format: "extra" },
+  savedDecks: [],
+  favoriteIds: [],
+  filterPresets: [],
+  recentFilters: [],
+  ...overrides,
+});
+
+describe("parseBackupDocument", () => {
+  it("プリセットと直近の検索条件を往復で復元する", () => {
+    const backup = data({
+      filterPresets: [preset("p1", "赤", "赤")],
+      recentFilters: [{ ...DEFAULT_FILTER_CRITERIA, text: "VOL" }],
+    });
+    const doc = parseBackupDocument(
+      JSON.stringify(createBackupDocument(backup, EXPORTED_AT)),
+    );
+    expect(doc.filterPresets).toEqual(backup.filterPresets);
+    expect(doc.recentFilters).toEqual(backup.recentFilters);
+  });
+
+  it("項目のない古いバックアップは空として読み込む", () => {
+    const legacy = {
+      format: "waic-deckbuilder-backup",
+      version: 1,
+      exportedAt: EXPORTED_AT,
+      workingDeck: data().workingDeck,
+      savedDecks: [],
+      favoriteIds: ["AA-1"],
+    };
+    const doc = parseBackupDocument(JSON.stringify(legacy));
+    expect(doc.favoriteIds).toEqual(["AA-1"]);
+    expect(doc.filterPresets).toEqual([]);
+    expect(doc.recentFilters).toEqual([]);
+  });
+
+  it("不正な要素は除外する", () => {
+    const doc = parseBackupDocument(
+      JSON.stringify({
+        ...createBackupDocument(data(), EXPORTED_AT),
+        filterPresets: [preset("p1", "赤", "赤"), { id: "p2", name: "" }, 1],
+        recentFilters: [{ text: "VOL" }, "invalid"],
+      }),
+    );
+    expect(doc.filterPresets.map((p) => p.id)).toEqual(["p1"]);
+    expect(doc.recentFilters).toEqual([
+      { ...DEFAULT_FILTER_CRITERIA, text: "VOL" },
+    ]);
+  });
+});
+
+describe("planBackupRestore", () => {
+  const current = data({
+    filterPresets: [preset("p1", "赤", "赤")],
+    recentFilters: [{ ...DEFAULT_FILTER_CRITERIA, text: "VOL" }],
+  });
+  const backup = data({
+    filterPresets: [preset("p1", "青", "青"), preset("p2", "赤", "別の条件")],
+    recentFilters: [
+      { ...DEFAULT_FILTER_CRITERIA, text: "VOL" },
+      { ...DEFAULT_FILTER_CRITERIA, text: "登場時" },
+    ],
+  });
+
+  it("merge は同名のプリセットを既存優先で追加し、検索条件の重複を除く", () => {
+    const { data: merged } = planBackupRestore(current, backup, "merge");
+    expect(merged.filterPresets.map((p) => p.name)).toEqual(["赤", "青"]);
+    expect(merged.filterPresets[0]?.criteria.text).toBe("赤");
+    expect(new Set(merged.filterPresets.map((p) => p.id)).size).toBe(2);
+    expect(merged.recentFilters.map((c) => c.text)).toEqual(["VOL", "登場時"]);
+  });
+
+  it("replace はバックアップの内容で置き換える", () => {
+    const { data: replaced } = planBackupRestore(current, backup, "replace");
+    expect(replaced.filterPresets).toEqual(backup.filterPresets);
+    expect(replaced.recentFilters).toEqual(backup.recentFilters);
+  });
+});
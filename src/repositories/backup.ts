@@ -0,0 +1,205 @@
+/**
+ * @file アプリデータ全体（編集中デッキ・保存デッキ・お気に入り・フィルター条件）のバックアップと復元。
+ *
+ * バックアップ形式（JSON）:
+ * `{ format: "waic-deckbuilder-backup", version: 1, exportedAt, workingDeck, savedDecks, favoriteIds, filterPresets, recentFilters }`
+ * - filterPresets / recentFilters は後から追加した項目。欠けている古いバックアップは空として扱い、
+ *   不正な要素は parseFilterPresets / parseRecentFilters で除外する
+ * 復元モード:
+ * - replace: すべてをバックアップの内容で置き換える（同名の既存デッキは上書きとして報告）
+ * - merge: 編集中デッキは維持し、保存デッキは追加のみ、お気に入りは和集合
+ *   同名で内容の異なるデッキは既存を優先し、競合として報告する
+ *   プリセットは同名なら既存を優先して追加、直近の検索条件は既存の後ろに重複を除いて追加する
+ * エラー: JSON 解析失敗は readError、形式不正は invalidData の StorageError
+ * 永続化への反映は各ストアが行う（ここでは検証と適用結果の算出のみ）
+ */
+import * as v from "valibot";
+import type { FilterCriteria, FilterPreset, SavedDeck } from "../types";
+import {
+  MAX_RECENT_FILTERS,
+  isSameFilterCriteria,
+  parseFilterPresets,
+  parseRecentFilters,
+} from "../domain";
+import { SavedDeckV2Schema, StorageError, generateSavedDeckId } from "../utils";
+import {
+  WorkingDeckRecordSchema,
+  type WorkingDeckRecord,
+} from "./deckRepository";
+
+export const BACKUP_FORMAT_ID = "waic-deckbuilder-backup" as const;
+export const BACKUP_VERSION = 1 as const;
+const BACKUP_ERROR_KEY = "backup" as const;
+
+/**
+ * バックアップ対象のデータ
+ */
+export interface BackupData {
+  readonly workingDeck: WorkingDeckRecord;
+  readonly savedDecks: readonly SavedDeck[];
+  readonly favoriteIds: readonly string[];
+  readonly filterPresets: readonly FilterPreset[];
+  readonly recentFilters: readonly FilterCriteria[];
+}
+
+export interface BackupDocument extends BackupData {
+  readonly format: typeof BACKUP_FORMAT_ID;
+  readonly version: typeof BACKUP_VERSION;
+  readonly exportedAt: string;
+}
+
+export type BackupRestoreMode = "merge" | "replace";
+
+/**
+ * 同名デッキの競合
+ * @property resolution - keptExisting: 既存を維持（merge）/ replaced: バックアップで上書き（replace）
+ */
+export interface BackupConflict {
+  readonly name: string;
+  readonly resolution: "keptExisting" | "replaced";
+}
+
+export interface BackupRestoreResult {
+  readonly data: BackupData;
+  readonly addedDeckNames: readonly string[];
+  readonly conflicts: readonly BackupConflict[];
+}
+
+const BackupDocumentSchema = v.object({
+  format: v.literal(BACKUP_FORMAT_ID),
+  version: v.literal(BACKUP_VERSION),
+  exportedAt: v.pipe(v.string(), v.isoTimestamp()),
+  workingDeck: WorkingDeckRecordSchema,
+  savedDecks: v.pipe(
+    v.array(SavedDeckV2Schema),
+    v.check(
+      (decks) => new Set(decks.map((d) => d.name)).size === decks.length,
+      "デッキ名が重複しています",
+    ),
+  ),
+  favoriteIds: v.array(v.string()),
+  filterPresets: v.optional(
+    v.pipe(v.unknown(), v.transform(parseFilterPresets)),
+    [],
+  ),
+  recentFilters: v.optional(
+    v.pipe(v.unknown(), v.transform(parseRecentFilters)),
+    [],
+  ),
+});
+
+/**
+ * バックアップ文書を作成
+ */
+export const createBackupDocument = (
+  data: BackupData,
+  now: string = new Date().toISOString(),
+): BackupDocument => ({
+  format: BACKUP_FORMAT_ID,
+  version: BACKUP_VERSION,
+  exportedAt: now,
+  ...data,
+});
+
+/**
+ * バックアップファイルの内容を検証して読み込む
+ * @throws StorageError
+ */
+export const parseBackupDocument = (text: string): BackupDocument => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new StorageError({
+      type: "readError",
+      key: BACKUP_ERROR_KEY,
+      reason: "バックアップファイルの JSON 解析に失敗しました",
+      originalError: e,
+    });
+  }
+  const parsed = v.safeParse(BackupDocumentSchema, data);
+  if (!parsed.success) {
+    throw new StorageError({
+      type: "invalidData",
+      key: BACKUP_ERROR_KEY,
+      reason: `バックアップファイルの形式が不正です: ${parsed.issues[0]?.message ?? "unknown"}`,
+      originalError: parsed.issues,
+    });
+  }
+  return parsed.output;
+};
+
+// 内容が同一か（日時・履歴の差は問わない）
+const isSameDeckContent = (a: SavedDeck, b: SavedDeck): boolean =>
+  a.code === b.code && a.format === b.format;
+
+/**
+ * 現在のデータにバックアップを適用した結果を求める（副作用なし）
+ */
+export const planBackupRestore = (
+  current: BackupData,
+  backup: BackupData,
+  mode: BackupRestoreMode,
+): BackupRestoreResult => {
+  const currentByName = new Map(current.savedDecks.map((d) => [d.name, d]));
+  const conflicts: BackupConflict[] = [];
+  const addedDeckNames: string[] = [];
+
+  if (mode === "replace") {
+    for (const deck of backup.savedDecks) {
+      const existing = currentByName.get(deck.name);
+      if (!existing) addedDeckNames.push(deck.name);
+      else if (!isSameDeckContent(existing, deck)) {
+        conflicts.push({ name: deck.name, resolution: "replaced" });
+      }
+    }
+    return { data: backup, addedDeckNames, conflicts };
+  }
+
+  const ids = new Set(current.savedDecks.map((d) => d.id));
+  const added: SavedDeck[] = [];
+  for (const deck of backup.savedDecks) {
+    const existing = currentByName.get(deck.name);
+    if (existing) {
+      if (!isSameDeckContent(existing, deck)) {
+        conflicts.push({ name: deck.name, resolution: "keptExisting" });
+      }
+      continue;
+    }
+    // 別名のデッキとIDが衝突する場合は採番し直す
+    const id = ids.has(deck.id) ? generateSavedDeckId() : deck.id;
+    ids.add(id);
+    added.push({ ...deck, id });
+    addedDeckNames.push(deck.name);
+  }
+  const presetIds = new Set(current.filterPresets.map((p) => p.id));
+  const presetNames = new Set(current.filterPresets.map((p) => p.name));
+  const addedPresets: FilterPreset[] = [];
+  for (const preset of backup.filterPresets) {
+    if (presetNames.has(preset.name)) continue;
+    const id = presetIds.has(preset.id) ? generateSavedDeckId() : preset.id;
+    presetIds.add(id);
+    presetNames.add(preset.name);
+    addedPresets.push({ ...preset, id });
+  }
+  const addedRecentFilters = backup.recentFilters.filter(
+    (criteria) =>
+      !current.recentFilters.some((c) => isSameFilterCriteria(c, criteria)),
+  );
+  return {
+    data: {
+      workingDeck: current.workingDeck,
+      savedDecks: [...current.savedDecks, ...added],
+      favoriteIds: [
+        ...new Set([...current.favoriteIds, ...backup.favoriteIds]),
+      ].sort(),
+      filterPresets: [...current.filterPresets, ...addedPresets],
+      recentFilters: [...current.recentFilters, ...addedRecentFilters].slice(
+        0,
+        MAX_RECENT_FILTERS,
+      ),
+    },
+    addedDeckNames,
+    conflicts,
+  };
+};
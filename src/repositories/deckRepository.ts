@@ -0,0 +1,105 @@
+/**
+ * @file デッキ関連データの永続化を抽象化するリポジトリの契約。
+ *
+ * 対象データ:
+ * - 編集中のデッキ（カード・デッキ名・フォーマット）
+ * - 保存デッキ一覧
+ * - お気に入りカードID
+ * - フィルター条件のプリセットと直近の検索条件
+ * 方針:
+ * - すべて非同期API。実装（IndexedDB/インメモリ）は呼び出し側から隠蔽する
+ * - 読み込み値は実装側で検証し、不正なデータは既定値として返す
+ * - 書き込み失敗は StorageError として通知する
+ */
+import * as v from "valibot";
+import { CardIdSchema, DEFAULT_FORMAT_ID, FORMATS } from "../domain";
+import type {
+  FilterCriteria,
+  FilterPreset,
+  FormatId,
+  SavedDeck,
+} from "../types";
+import { DEFAULT_DECK_NAME } from "../utils";
+
+/**
+ * 永続化されるデッキカード（カード本体ではなくIDで保持）
+ */
+export interface StoredDeckCard {
+  readonly id: string;
+  readonly count: number;
+}
+
+/**
+ * 編集中のデッキ
+ */
+export interface WorkingDeckRecord {
+  readonly cards: readonly StoredDeckCard[];
+  readonly name: string;
+  readonly format: FormatId;
+}
+
+export interface DeckRepository {
+  loadWorkingDeck(): Promise<WorkingDeckRecord | null>;
+  saveWorkingDeck(record: WorkingDeckRecord): Promise<void>;
+  loadSavedDecks(): Promise<readonly SavedDeck[]>;
+  saveSavedDecks(decks: readonly SavedDeck[]): Promise<void>;
+  loadFavoriteIds(): Promise<readonly string[]>;
+  saveFavoriteIds(ids: readonly string[]): Promise<void>;
+  loadFilterPresets(): Promise<readonly FilterPreset[]>;
+  saveFilterPresets(presets: readonly FilterPreset[]): Promise<void>;
+  /** 直近の検索条件（新しい順） */
+  loadRecentFilters(): Promise<readonly FilterCriteria[]>;
+  saveRecentFilters(filters: readonly FilterCriteria[]): Promise<void>;
+  /** 旧ストレージからの移行が完了しているかどうか */
+  isMigrated(): Promise<boolean>;
+  markMigrated(): Promise<void>;
+}
+
+export const EMPTY_WORKING_DECK: WorkingDeckRecord = {
+  cards: [],
+  name: DEFAULT_DECK_NAME,
+  format: DEFAULT_FORMAT_ID,
+};
+
+const StoredDeckCardsSchema = v.array(
+  v.object({
+    id: CardIdSchema,
+    count: v.pipe(v.number(), v.integer(), v.minValue(0)),
+  }),
+);
+
+export const WorkingDeckRecordSchema = v.object({
+  cards: v.fallback(StoredDeckCardsSchema, []),
+  name: v.fallback(
+    v.pipe(v.string(), v.trim(), v.nonEmpty()),
+    DEFAULT_DECK_NAME,
+  ),
+  format: v.fallback(v.picklist(FORMATS.map((f) => f.id)), DEFAULT_FORMAT_ID),
+});
+
+const FavoriteIdsSchema = v.array(v.string());
+
+/**
+ * 永続化用に値を複製する
+ * - Vue のリアクティブプロキシは構造化複製できないため JSON 経由で平坦化する
+ */
+export const clonePlain = <T>(value: T): T =>
+  JSON.parse(JSON.stringify(value)) as T;
+
+/**
+ * 永続化データを編集中デッキとして検証（不正なら null）
+ */
+export const parseWorkingDeckRecord = (
+  data: unknown,
+): WorkingDeckRecord | null => {
+  const parsed = v.safeParse(WorkingDeckRecordSchema, data);
+  return parsed.success ? parsed.output : null;
+};
+
+/**
+ * 永続化データをお気に入りIDとして検証（不正なら空配列）
+ */
+export const parseFavoriteIds = (data: unknown): readonly string[] => {
+  const parsed = v.safeParse(FavoriteIdsSchema, data);
+  return parsed.success ? parsed.output : [];
+};
@@ -0,0 +1,18 @@
+/**
+ * 共有デッキリポジトリの差し替えのテスト。
+ */
+import { describe, expect, it } from "vitest";
+import { getDeckRepository, setDeckRepository } from "./defaultDeckRepository";
+import { createInMemoryDeckRepository } from "./memoryDeckRepository";
+
+describe("setDeckRepository", () => {
+  it("取得済みの参照にも差し替えが反映される", async () => {
+    const shared = getDeckRepository();
+    await shared.saveFavoriteIds(["AA-1"]);
+
+    setDeckRepository(createInMemoryDeckRepository({ favoriteIds: ["AS-3"] }));
+
+    expect(await shared.loadFavoriteIds()).toEqual(["AS-3"]);
+    expect(getDeckRepository()).toBe(shared);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @file アプリ全体で共有するデッキリポジトリの解決。
+ *
+ * - getDeckRepository は常に同じオブジェクトを返し、呼び出しを現在の実装へ転送する
+ * - そのため setDeckRepository による差し替えは、取得済みの参照（各ストア）にも反映される
+ * - 実装の種類（DeckStorageKind）で永続化されるかどうかを判定できる
+ *   （旧ストレージの移行は永続化される IndexedDB に対してのみ行う）
+ */
+import type { DeckRepository } from "./deckRepository";
+import {
+  createIndexedDbDeckRepository,
+  isIndexedDbAvailable,
+} from "./indexedDbDeckRepository";
+import {
+  createLocalStorageDeckRepository,
+  isLocalStorageAvailable,
+} from "./localStorageDeckRepository";
+import { createInMemoryDeckRepository } from "./memoryDeckRepository";
+
+/**
+ * 共有リポジトリの実装の種類
+ * - indexedDb / localStorage: 永続化される
+ * - memory: ページを閉じるとデータは失われる
+ */
+export type DeckStorageKind = "indexedDb" | "localStorage" | "memory";
+
+let repository: DeckRepository | null = null;
+let repositoryKind: DeckStorageKind = "memory";
+
+/**
+ * 現在の実装
+ * - IndexedDB が使えない環境では旧永続化先の localStorage、それも使えなければインメモリにフォールバック
+ */
+const current = (): DeckRepository => {
+  if (!repository) {
+    if (isIndexedDbAvailable()) {
+      repository = createIndexedDbDeckRepository();
+      repositoryKind = "indexedDb";
+    } else if (isLocalStorageAvailable()) {
+      repository = createLocalStorageDeckRepository(localStorage);
+      repositoryKind = "localStorage";
+    } else {
+      repository = createInMemoryDeckRepository();
+      repositoryKind = "memory";
+    }
+  }
+  return repository;
+};
+
+const sharedRepository: DeckRepository = {
+  loadWorkingDeck: () => current().loadWorkingDeck(),
+  saveWorkingDeck: (record) => current().saveWorkingDeck(record),
+  loadSavedDecks: () => current().loadSavedDecks(),
+  saveSavedDecks: (decks) => current().saveSavedDecks(decks),
+  loadFavoriteIds: () => current().loadFavoriteIds(),
+  saveFavoriteIds: (ids) => current().saveFavoriteIds(ids),
+  loadFilterPresets: () => current().loadFilterPresets(),
+  saveFilterPresets: (presets) => current().saveFilterPresets(presets),
+  loadRecentFilters: () => current().loadRecentFilters(),
+  saveRecentFilters: (filters) => current().saveRecentFilters(filters),
+  isMigrated: () => current().isMigrated(),
+  markMigrated: () => current().markMigrated(),
+};
+
+/**
+ * アプリ全体で共有するデッキリポジトリ
+ */
+export const getDeckRepository = (): DeckRepository => sharedRepository;
+
+/**
+ * 共有リポジトリの実装の種類
+ */
+export const getDeckStorageKind = (): DeckStorageKind => {
+  current();
+  return repositoryKind;
+};
+
+/**
+ * 共有リポジトリの実装を差し替える
+ * - 旧ストレージからの移行に失敗した場合に、永続化しないインメモリ実装へ切り替える
+ */
+export const setDeckRepository = (
+  next: DeckRepository,
+  kind: DeckStorageKind = "memory",
+): void => {
+  repository = next;
+  repositoryKind = kind;
+};
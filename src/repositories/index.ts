@@ -0,0 +1,7 @@
+export * from "./deckRepository";
+export * from "./indexedDbDeckRepository";
+export * from "./localStorageDeckRepository";
+export * from "./memoryDeckRepository";
+export * from "./legacyStorageMigration";
+export * from "./defaultDeckRepository";
+export * from "./backup";
@@ -0,0 +1,129 @@
+/**
+ * @file IndexedDB によるデッキリポジトリ。
+ *
+ * - DB: "waic-deckbuilder"、オブジェクトストア "kv"（キー → 値の単純な格納）
+ * - キー: workingDeck / savedDecks / favoriteIds / filterPresets / recentFilters / migrated
+ * - 読み込み値は deckRepository の検証関数を通す
+ * - 失敗は StorageError（key はストア内のキー）として通知する
+ */
+import { parseFilterPresets, parseRecentFilters } from "../domain";
+import {
+  StorageError,
+  parseSavedDeckLibrary,
+  toSavedDeckLibrary,
+} from "../utils";
+import {
+  clonePlain,
+  parseFavoriteIds,
+  parseWorkingDeckRecord,
+  type DeckRepository,
+} from "./deckRepository";
+
+const DB_NAME = "waic-deckbuilder" as const;
+const DB_VERSION = 1 as const;
+const STORE_NAME = "kv" as const;
+
+const KEYS = {
+  WORKING_DECK: "workingDeck",
+  SAVED_DECKS: "savedDecks",
+  FAVORITE_IDS: "favoriteIds",
+  FILTER_PRESETS: "filterPresets",
+  RECENT_FILTERS: "recentFilters",
+  MIGRATED: "migrated",
+} as const;
+
+type Key = (typeof KEYS)[keyof typeof KEYS];
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () =>
+      reject(new Error("IndexedDB のアップグレードがブロックされました"));
+  });
+
+export const isIndexedDbAvailable = (): boolean =>
+  typeof indexedDB !== "undefined";
+
+export const createIndexedDbDeckRepository = (): DeckRepository => {
+  // 接続は初回アクセス時に確立して使い回す
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = openDatabase().catch((e: unknown) => {
+        dbPromise = null; // 次回アクセス時に再試行
+        throw e;
+      });
+    }
+    return dbPromise;
+  };
+
+  const read = async (key: Key): Promise<unknown> => {
+    try {
+      const db = await getDb();
+      const store = db
+        .transaction(STORE_NAME, "readonly")
+        .objectStore(STORE_NAME);
+      return await requestToPromise(store.get(key));
+    } catch (e) {
+      throw new StorageError({ type: "readError", key, originalError: e });
+    }
+  };
+
+  const write = async (key: Key, value: unknown): Promise<void> => {
+    try {
+      const db = await getDb();
+      const tx = db.transaction(STORE_NAME, "readwrite");
+      tx.objectStore(STORE_NAME).put(clonePlain(value), key);
+      await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      });
+    } catch (e) {
+      throw new StorageError({
+        type: "saveError",
+        key,
+        data: value,
+        originalError: e,
+      });
+    }
+  };
+
+  return {
+    loadWorkingDeck: async () =>
+      parseWorkingDeckRecord(await read(KEYS.WORKING_DECK)),
+    saveWorkingDeck: (record) => write(KEYS.WORKING_DECK, record),
+    // 保存デッキは版付きの形式（localStorage 時代と同一）で格納する
+    loadSavedDecks: async () => {
+      const raw = await read(KEYS.SAVED_DECKS);
+      return raw === undefined ? [] : parseSavedDeckLibrary(raw);
+    },
+    saveSavedDecks: (decks) =>
+      write(KEYS.SAVED_DECKS, toSavedDeckLibrary(decks)),
+    loadFavoriteIds: async () =>
+      parseFavoriteIds(await read(KEYS.FAVORITE_IDS)),
+    saveFavoriteIds: (ids) => write(KEYS.FAVORITE_IDS, ids),
+    loadFilterPresets: async () =>
+      parseFilterPresets(await read(KEYS.FILTER_PRESETS)),
+    saveFilterPresets: (presets) => write(KEYS.FILTER_PRESETS, presets),
+    loadRecentFilters: async () =>
+      parseRecentFilters(await read(KEYS.RECENT_FILTERS)),
+    saveRecentFilters: (filters) => write(KEYS.RECENT_FILTERS, filters),
+    isMigrated: async () => (await read(KEYS.MIGRATED)) === true,
+    markMigrated: () => write(KEYS.MIGRATED, true),
+  };
+};
@@ -0,0 +1,60 @@
+/**
+ * 旧ストレージからの移行のテスト（インメモリのリポジトリを使用）。
+ */
+import { describe, expect, it } from "vitest";
+import { LEGACY_ENTRIES, createStorage } from "./__fixtures__/storage";
+import { createInMemoryDeckRepository } from "./memoryDeckRepository";
+import {
+  migrateLegacyStorage,
+  readLegacyStorage,
+} from "./legacyStorageMigration";
+
+describe("migrateLegacyStorage", () => {
+  it("旧データをリポジトリへ移行し、旧キーを削除する", async () => {
+    const repository = createInMemoryDeckRepository();
+    const storage = createStorage(LEGACY_ENTRIES);
+
+    await expect(migrateLegacyStorage(repository, storage)).resolves.toBe(true);
+
+    expect(await repository.loadWorkingDeck()).toMatchObject({
+      cards: [{ id: "AA-1", count: 2 }],
+      name: "旧デッキ",
+    });
+    expect((await repository.loadSavedDecks()).map((d) => d.name)).toEqual([
+      "保存デッキ",
+    ]);
+    expect(await repository.loadFavoriteIds()).toEqual(["AA-1"]);
+    expect(await repository.isMigrated()).toBe(true);
+    expect(storage.length).toBe(0);
+  });
+
+  it("移行済みなら何もしない", async () => {
+    const repository = createInMemoryDeckRepository({ migrated: true });
+    const storage = createStorage(LEGACY_ENTRIES);
+
+    await expect(migrateLegacyStorage(repository, storage)).resolves.toBe(
+      false,
+    );
+    expect(await repository.loadSavedDecks()).toEqual([]);
+    expect(storage.length).toBe(Object.keys(LEGACY_ENTRIES).length);
+  });
+
+  it("書き込みに失敗した場合は移行済みにせず、旧データを残す", async () => {
+    const repository = {
+      ...createInMemoryDeckRepository(),
+      saveSavedDecks: () => Promise.reject(new Error("quota")),
+    };
+    const storage = createStorage(LEGACY_ENTRIES);
+
+    await expect(migrateLegacyStorage(repository, storage)).rejects.toThrow(
+      "quota",
+    );
+    expect(await repository.isMigrated()).toBe(false);
+    expect(storage.length).toBe(Object.keys(LEGACY_ENTRIES).length);
+    // 失敗時に継続するための読み込みは旧データをそのまま返す
+    expect(readLegacyStorage(storage)).toMatchObject({
+      workingDeck: { name: "旧デッキ" },
+      favoriteIds: ["AA-1"],
+    });
+  });
+});
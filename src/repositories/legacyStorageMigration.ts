@@ -0,0 +1,103 @@
+/**
+ * @file localStorage（旧永続化先）からリポジトリへの一回限りの移行。
+ *
+ * - 対象キー: deckCards_k / deckName_k / deckFormat_k / savedDecks / お気に入り
+ * - 移行済みフラグが立っていれば何もしない（冪等）
+ * - 値は各リポジトリと同じ検証関数を通し、不正な値は既定値として扱う
+ * - すべての書き込みが成功した後にのみフラグを立て、旧キーを削除する
+ * - 旧キーを削除するため、永続化されるリポジトリ（IndexedDB）に対してのみ呼び出す
+ * - 移行に失敗した場合、呼び出し側は readLegacyStorage の内容で継続し、
+ *   移行が成功するまでリポジトリへ書き込まない（次回起動時に再試行する）
+ */
+import type { SavedDeck } from "../types";
+import { SAVED_DECKS_STORAGE_KEY, parseSavedDeckLibrary } from "../utils";
+import {
+  parseFavoriteIds,
+  parseWorkingDeckRecord,
+  type DeckRepository,
+  type WorkingDeckRecord,
+} from "./deckRepository";
+
+export const LEGACY_STORAGE_KEYS = {
+  DECK_CARDS: "deckCards_k",
+  DECK_NAME: "deckName_k",
+  DECK_FORMAT: "deckFormat_k",
+  SAVED_DECKS: SAVED_DECKS_STORAGE_KEY,
+  FAVORITE_CARDS: "waic-deckbuilder-favorite-cards",
+} as const;
+
+// useLocalStorage は文字列を生のまま、配列/オブジェクトを JSON で保存していた
+const readJson = (storage: Storage, key: string): unknown => {
+  const raw = storage.getItem(key);
+  if (raw === null) return undefined;
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * 旧ストレージに保存されていた内容（存在する項目のみ）
+ */
+export interface LegacyStorageSnapshot {
+  readonly workingDeck?: WorkingDeckRecord;
+  readonly savedDecks?: readonly SavedDeck[];
+  readonly favoriteIds?: readonly string[];
+}
+
+/**
+ * 旧ストレージの内容を検証して読み込む（旧キーは削除しない）
+ */
+export const readLegacyStorage = (storage: Storage): LegacyStorageSnapshot => {
+  const cards = readJson(storage, LEGACY_STORAGE_KEYS.DECK_CARDS);
+  const name = storage.getItem(LEGACY_STORAGE_KEYS.DECK_NAME);
+  const format = storage.getItem(LEGACY_STORAGE_KEYS.DECK_FORMAT);
+  const workingDeck =
+    cards !== undefined || name !== null || format !== null
+      ? parseWorkingDeckRecord({ cards, name, format })
+      : null;
+  const savedDecks = readJson(storage, LEGACY_STORAGE_KEYS.SAVED_DECKS);
+  const favorites = readJson(storage, LEGACY_STORAGE_KEYS.FAVORITE_CARDS);
+  return {
+    ...(workingDeck ? { workingDeck } : {}),
+    ...(savedDecks !== undefined
+      ? { savedDecks: parseSavedDeckLibrary(savedDecks) }
+      : {}),
+    ...(favorites !== undefined
+      ? { favoriteIds: parseFavoriteIds(favorites) }
+      : {}),
+  };
+};
+
+/**
+ * 旧ストレージの内容をリポジトリへ移行する
+ * @returns 移行を実施した場合 true（移行済み・旧データなしでも移行済みとして記録）
+ */
+export const migrateLegacyStorage = async (
+  repository: DeckRepository,
+  storage: Storage | undefined,
+): Promise<boolean> => {
+  if (await repository.isMigrated()) return false;
+  if (!storage) {
+    await repository.markMigrated();
+    return false;
+  }
+
+  const snapshot = readLegacyStorage(storage);
+  if (snapshot.workingDeck) {
+    await repository.saveWorkingDeck(snapshot.workingDeck);
+  }
+  if (snapshot.savedDecks) {
+    await repository.saveSavedDecks(snapshot.savedDecks);
+  }
+  if (snapshot.favoriteIds) {
+    await repository.saveFavoriteIds(snapshot.favoriteIds);
+  }
+
+  await repository.markMigrated();
+  for (const key of Object.values(LEGACY_STORAGE_KEYS)) {
+    storage.removeItem(key);
+  }
+  return true;
+};
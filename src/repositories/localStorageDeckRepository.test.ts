@@ -0,0 +1,76 @@
+/**
+ * IndexedDB 非対応環境での共有リポジトリのテスト（旧永続化先の localStorage で継続する）。
+ */
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LEGACY_ENTRIES, createStorage } from "./__fixtures__/storage";
+import { LEGACY_STORAGE_KEYS } from "./legacyStorageMigration";
+
+// 共有リポジトリはモジュール内で実装を保持するため、テストごとに読み込み直す
+const loadModules = async () => {
+  vi.resetModules();
+  return {
+    ...(await import("./defaultDeckRepository")),
+    ...(await import("./legacyStorageMigration")),
+  };
+};
+
+describe("IndexedDB が使えない環境", () => {
+  beforeEach(() => {
+    vi.stubGlobal("indexedDB", undefined);
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("localStorage の旧データを移行・削除せずにそのまま読み書きする", async () => {
+    const storage = createStorage(LEGACY_ENTRIES);
+    vi.stubGlobal("localStorage", storage);
+    const { getDeckRepository, getDeckStorageKind, migrateLegacyStorage } =
+      await loadModules();
+    const repository = getDeckRepository();
+
+    expect(getDeckStorageKind()).toBe("localStorage");
+    await expect(migrateLegacyStorage(repository, storage)).resolves.toBe(
+      false,
+    );
+    for (const [key, value] of Object.entries(LEGACY_ENTRIES)) {
+      expect(storage.getItem(key)).toBe(value);
+    }
+
+    expect(await repository.loadWorkingDeck()).toMatchObject({
+      cards: [{ id: "AA-1", count: 2 }],
+      name: "旧デッキ",
+    });
+    expect((await repository.loadSavedDecks()).map((d) => d.name)).toEqual([
+      "保存デッキ",
+    ]);
+
+    await repository.saveFavoriteIds(["AA-1", "AS-3"]);
+    await repository.saveWorkingDeck({
+      cards: [{ id: "AS-3", count: 1 }],
+      name: "新しいデッキ",
+      format: "extra",
+    });
+    expect(storage.getItem(LEGACY_STORAGE_KEYS.FAVORITE_CARDS)).toBe(
+      JSON.stringify(["AA-1", "AS-3"]),
+    );
+    expect(storage.getItem(LEGACY_STORAGE_KEYS.DECK_NAME)).toBe("新しいデッキ");
+    expect(await repository.loadWorkingDeck()).toEqual({
+      cards: [{ id: "AS-3", count: 1 }],
+      name: "新しいデッキ",
+      format: "extra",
+    });
+  });
+
+  it("localStorage も使えなければ永続化されないインメモリとして扱う", async () => {
+    vi.stubGlobal("localStorage", {
+      ...createStorage({}),
+      setItem: () => {
+        throw new Error("QuotaExceededError");
+      },
+    });
+    const { getDeckStorageKind } = await loadModules();
+
+    expect(getDeckStorageKind()).toBe("memory");
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * @file localStorage によるデッキリポジトリ（IndexedDB 非対応環境用）。
+ *
+ * - 編集中デッキ・保存デッキ・お気に入りは旧永続化先と同じキー・形式で読み書きする
+ *   （LEGACY_STORAGE_KEYS。IndexedDB が使えるようになった時点で移行できるよう形式を変えない）
+ * - フィルター条件のプリセット・直近の検索条件は専用のキーに JSON で格納する
+ * - 旧ストレージそのものを永続化先とするため、移行は常に完了済みとして扱う
+ * - 失敗は StorageError（key は localStorage のキー）として通知する
+ */
+import { parseFilterPresets, parseRecentFilters } from "../domain";
+import { StorageError, serializeSavedDeckLibrary } from "../utils";
+import type { DeckRepository } from "./deckRepository";
+import {
+  LEGACY_STORAGE_KEYS,
+  readLegacyStorage,
+} from "./legacyStorageMigration";
+
+const KEYS = {
+  FILTER_PRESETS: "waic-deckbuilder-filter-presets",
+  RECENT_FILTERS: "waic-deckbuilder-recent-filters",
+} as const;
+
+const PROBE_KEY = "waic-deckbuilder-probe" as const;
+
+/**
+ * localStorage に書き込めるか（プライベートモード等では例外になる）
+ */
+export const isLocalStorageAvailable = (): boolean => {
+  try {
+    if (typeof localStorage === "undefined") return false;
+    localStorage.setItem(PROBE_KEY, PROBE_KEY);
+    localStorage.removeItem(PROBE_KEY);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const createLocalStorageDeckRepository = (
+  storage: Storage,
+): DeckRepository => {
+  const readJson = (key: string): unknown => {
+    const raw = storage.getItem(key);
+    if (raw === null) return undefined;
+    try {
+      return JSON.parse(raw) as unknown;
+    } catch {
+      return undefined;
+    }
+  };
+
+  const write = async (entries: Record<string, string>): Promise<void> => {
+    for (const [key, value] of Object.entries(entries)) {
+      try {
+        storage.setItem(key, value);
+      } catch (e) {
+        throw new StorageError({
+          type: "saveError",
+          key,
+          data: value,
+          originalError: e,
+        });
+      }
+    }
+  };
+
+  return {
+    loadWorkingDeck: async () => readLegacyStorage(storage).workingDeck ?? null,
+    saveWorkingDeck: (record) =>
+      write({
+        [LEGACY_STORAGE_KEYS.DECK_CARDS]: JSON.stringify(record.cards),
+        [LEGACY_STORAGE_KEYS.DECK_NAME]: record.name,
+        [LEGACY_STORAGE_KEYS.DECK_FORMAT]: record.format,
+      }),
+    loadSavedDecks: async () => readLegacyStorage(storage).savedDecks ?? [],
+    saveSavedDecks: (decks) =>
+      write({
+        [LEGACY_STORAGE_KEYS.SAVED_DECKS]: serializeSavedDeckLibrary(decks),
+      }),
+    loadFavoriteIds: async () => readLegacyStorage(storage).favoriteIds ?? [],
+    saveFavoriteIds: (ids) =>
+      write({ [LEGACY_STORAGE_KEYS.FAVORITE_CARDS]: JSON.stringify(ids) }),
+    loadFilterPresets: async () =>
+      parseFilterPresets(readJson(KEYS.FILTER_PRESETS)),
+    saveFilterPresets: (presets) =>
+      write({ [KEYS.FILTER_PRESETS]: JSON.stringify(presets) }),
+    loadRecentFilters: async () =>
+      parseRecentFilters(readJson(KEYS.RECENT_FILTERS)),
+    saveRecentFilters: (filters) =>
+      write({ [KEYS.RECENT_FILTERS]: JSON.stringify(filters) }),
+    isMigrated: async () => true,
+    markMigrated: async () => {},
+  };
+};
@@ -0,0 +1,56 @@
+/**
+ * @file インメモリのデッキリポジトリ（テスト・IndexedDB 非対応環境用）。
+ * - ページを閉じるとデータは失われる
+ * - 呼び出し側との参照共有を避けるため、読み書き時に複製する
+ */
+import type { FilterCriteria, FilterPreset, SavedDeck } from "../types";
+import {
+  clonePlain,
+  type DeckRepository,
+  type WorkingDeckRecord,
+} from "./deckRepository";
+
+export const createInMemoryDeckRepository = (
+  initial: {
+    readonly workingDeck?: WorkingDeckRecord;
+    readonly savedDecks?: readonly SavedDeck[];
+    readonly favoriteIds?: readonly string[];
+    readonly filterPresets?: readonly FilterPreset[];
+    readonly recentFilters?: readonly FilterCriteria[];
+    readonly migrated?: boolean;
+  } = {},
+): DeckRepository => {
+  let workingDeck: WorkingDeckRecord | null = initial.workingDeck ?? null;
+  let savedDecks: readonly SavedDeck[] = initial.savedDecks ?? [];
+  let favoriteIds: readonly string[] = initial.favoriteIds ?? [];
+  let filterPresets: readonly FilterPreset[] = initial.filterPresets ?? [];
+  let recentFilters: readonly FilterCriteria[] = initial.recentFilters ?? [];
+  let migrated = initial.migrated ?? false;
+
+  return {
+    loadWorkingDeck: async () => (workingDeck ? clonePlain(workingDeck) : null),
+    saveWorkingDeck: async (record) => {
+      workingDeck = clonePlain(record);
+    },
+    loadSavedDecks: async () => clonePlain(savedDecks),
+    saveSavedDecks: async (decks) => {
+      savedDecks = clonePlain(decks);
+    },
+    loadFavoriteIds: async () => [...favoriteIds],
+    saveFavoriteIds: async (ids) => {
+      favoriteIds = [...ids];
+    },
+    loadFilterPresets: async () => clonePlain(filterPresets),
+    saveFilterPresets: async (presets) => {
+      filterPresets = clonePlain(presets);
+    },
+    loadRecentFilters: async () => clonePlain(recentFilters),
+    saveRecentFilters: async (filters) => {
+      recentFilters = clonePlain(filters);
+    },
+    isMigrated: async () => migrated,
+    markMigrated: async () => {
+      migrated = true;
+    },
+  };
+};
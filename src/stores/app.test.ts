@@ -0,0 +1,69 @@
+/**
+ * 保存デッキの読み込みのテスト（インポートに失敗したら名前・フォーマットを変えない）。
+ */
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createPinia, setActivePinia } from "pinia";
+import {
+  createInMemoryDeckRepository,
+  setDeckRepository,
+} from "../repositories";
+import { useAppStore } from "./app";
+import { useDeckStore } from "./deck";
+import { useDeckCodeStore } from "./deckCode";
+
+vi.mock("../utils/tabSync", () => ({
+  createTabSyncChannel: () => ({
+    post: () => {},
+    subscribe: () => () => {},
+  }),
+}));
+
+describe("useAppStore.loadSavedDeck", () => {
+  beforeEach(() => {
+    setDeckRepository(createInMemoryDeckRepository());
+    setActivePinia(createPinia());
+  });
+
+  it("インポートに失敗したら名前・フォーマットを変更しない", () => {
+    const deckStore = useDeckStore();
+    const { deckName, formatId } = deckStore;
+
+    // カード未読み込みのため有効なカードがなく失敗する
+    expect(useAppStore().loadSavedDeck("保存デッキ", "AA-1", "extra")).toBe(
+      false,
+    );
+
+    expect(useDeckCodeStore().error).not.toBeNull();
+    expect(deckStore.deckName).toBe(deckName);
+    expect(deckStore.formatId).toBe(formatId);
+  });
+
+  it("インポートが例外を送出しても名前・フォーマットを変更しない", () => {
+    const deckStore = useDeckStore();
+    const { deckName, formatId } = deckStore;
+    vi.spyOn(useDeckCodeStore(), "importDeckFromCode").mockImplementation(
+      () => {
+        throw new Error("unexpected");
+      },
+    );
+
+    expect(() =>
+      useAppStore().loadSavedDeck("保存デッキ", "AA-1", "extra"),
+    ).toThrow("unexpected");
+
+    expect(deckStore.deckName).toBe(deckName);
+    expect(deckStore.formatId).toBe(formatId);
+  });
+
+  it("インポートに成功したら名前・フォーマットを適用する", () => {
+    const deckStore = useDeckStore();
+    vi.spyOn(useDeckCodeStore(), "importDeckFromCode").mockReturnValue(true);
+
+    expect(useAppStore().loadSavedDeck("保存デッキ", "AA-1", "extra")).toBe(
+      true,
+    );
+
+    expect(deckStore.deckName).toBe("保存デッキ");
+    expect(deckStore.formatId).toBe("extra");
+  });
+});
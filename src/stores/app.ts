@@ -3,11 +3,27 @@
  * 目的: アプリ全体のUI状態（リセット確認モーダル、初期化フロー、デッキ操作）を管理する。
  * 契約:
  * - showResetConfirmModal: 読み取り専用。resetDeck/confirmResetDeck/cancelResetDeck でのみ変更。
+ * - showDeckAnalysisModal: 読み取り専用。openDeckAnalysisModal/closeDeckAnalysisModal でのみ変更。
  * - initializeApp: カード読み込み失敗時は早期 return して後続副作用を停止。
+ *   永続化データは旧 localStorage からの移行（初回のみ）を済ませてから読み込む。
+ * - 共有URL（#deck=...）: 起動時に検出して pendingSharedDeck に保持し、確認後にのみインポートする。
+ *   フラグメントは検出時に除去する（再読み込みで再度確認しない）。
+ * - 旧ストレージからの移行は IndexedDB に保存できる場合のみ行う。localStorage で継続する場合は
+ *   旧データをそのまま読み書きし、どちらも使えない場合は storageIssue を "unavailable" とする
+ *   （永続化されないリポジトリへ移行して旧データを削除しない）。
+ * - 旧ストレージからの移行に失敗した場合は、旧データを読み込んだインメモリのリポジトリで継続し
+ *   storageIssue を "migrationFailed" とする（移行が成功するまで永続化先へ書き込まない）。
+ * - 共有URL（#filter=...）: 起動時に検出し、確認なしでフィルター条件として適用する（フラグメントは除去）。
  * 非目標: ビジネスロジックは各ストアへ委譲（最小API表面）。
  */
 import { defineStore } from "pinia";
-import { ref, readonly } from "vue";
+import { computed, ref, readonly, shallowRef } from "vue";
+import {
+  parseDeckShareHash,
+  parseFilterShareHash,
+  type SharedDeck,
+} from "../utils";
+import type { FormatId } from "../types";
 import { useCardsStore } from "./cards";
 import { useDeckStore } from "./deck";
 import { useFilterStore } from "./filter";
@@ -15,11 +31,29 @@ import { useFilterStore } from "./filter";
 import { useDeckCodeStore } from "./deckCode";
 import { useExportStore } from "./export";
 import { useDeckManagementStore } from "./deckManagement";
+import { useRestrictionStore } from "./restriction";
+import { useFavoritesStore } from "./favorites";
+import { useFilterPresetsStore } from "./filterPresets";
+import {
+  createInMemoryDeckRepository,
+  getDeckRepository,
+  getDeckStorageKind,
+  migrateLegacyStorage,
+  readLegacyStorage,
+  setDeckRepository,
+} from "../repositories";
 
 export const useAppStore = defineStore("app", () => {
   // Vue 3.5の新機能: shallowRef for performance optimization
   // 頻繁に変更されない状態にはshallowRefを使用
   const showResetConfirmModal = ref<boolean>(false);
+  const showDeckAnalysisModal = ref<boolean>(false);
+  const pendingSharedDeck = shallowRef<SharedDeck | null>(null);
+  // このセッションの変更が保存されない原因
+  // - migrationFailed: 旧ストレージからの移行に失敗した
+  // - unavailable: IndexedDB も localStorage も使えない
+  const storageIssue = ref<"migrationFailed" | "unavailable" | null>(null);
+  const isStorageReadOnly = computed(() => storageIssue.value !== null);
 
   // 各ストアのインスタンス取得
   const cardsStore = useCardsStore();
@@ -28,6 +62,9 @@ export const useAppStore = defineStore("app", () => {
   const deckCodeStore = useDeckCodeStore();
   const exportStore = useExportStore();
   const deckManagementStore = useDeckManagementStore();
+  const restrictionStore = useRestrictionStore();
+  const favoritesStore = useFavoritesStore();
+  const filterPresetsStore = useFilterPresetsStore();
 
   /**
    * Vue 3.5最適化: デッキリセット処理
@@ -46,12 +83,28 @@ export const useAppStore = defineStore("app", () => {
     showResetConfirmModal.value = false;
   };
 
+  /**
+   * デッキ分析モーダルの開閉
+   */
+  const openDeckAnalysisModal = (): void => {
+    showDeckAnalysisModal.value = true;
+  };
+
+  const closeDeckAnalysisModal = (): void => {
+    showDeckAnalysisModal.value = false;
+  };
+
   /**
    * Vue 3.5最適化: デッキコードからインポート（カードストアとの連携）
    */
-  const importDeckFromCode = (): void => {
+  const importDeckFromCode = (): boolean =>
     deckCodeStore.importDeckFromCode(cardsStore.availableCards);
-  };
+
+  /**
+   * QRコード画像からインポート（カードストアとの連携）
+   */
+  const importDeckFromQrImage = (image: Blob): Promise<boolean> =>
+    deckCodeStore.importDeckFromQrImage(image, cardsStore.availableCards);
 
   /**
    * デッキ名の一元的な更新窓口
@@ -61,12 +114,98 @@ export const useAppStore = defineStore("app", () => {
   };
 
   /**
-   * 保存デッキの読み込み（名前とコードを一括適用）
+   * 保存デッキの読み込み（名前・コード・フォーマットを一括適用）
+   * - 名前・フォーマットはインポートの成功後に適用し、失敗時は編集中のデッキをそのまま残す
    */
-  const loadSavedDeck = (name: string, code: string): void => {
-    deckStore.setDeckName(name);
+  const loadSavedDeck = (
+    name: string,
+    code: string,
+    format?: FormatId,
+  ): boolean => {
     deckCodeStore.setImportDeckCode(code);
-    importDeckFromCode();
+    if (!importDeckFromCode()) return false;
+    deckStore.setDeckName(name);
+    if (format) deckStore.setFormat(format);
+    return true;
+  };
+
+  // 共有URLのフラグメントを除去する（再読み込みで再度適用しない）
+  const clearLocationHash = (): void => {
+    window.history.replaceState(
+      window.history.state,
+      "",
+      window.location.pathname + window.location.search,
+    );
+  };
+
+  /**
+   * URLフラグメントから共有デッキを検出し、確認待ちにする
+   */
+  const detectSharedDeck = (): void => {
+    if (typeof window === "undefined") return;
+    const shared = parseDeckShareHash(window.location.hash);
+    if (!shared) return;
+    // 再読み込みや共有URLの再コピーで同じデッキを再提示しないよう除去
+    clearLocationHash();
+    pendingSharedDeck.value = shared;
+  };
+
+  /**
+   * URLフラグメントから共有フィルター条件を検出して適用する
+   * - デッキを変更しないため確認は行わない
+   */
+  const applySharedFilter = (): void => {
+    if (typeof window === "undefined") return;
+    const criteria = parseFilterShareHash(window.location.hash);
+    if (!criteria) return;
+    clearLocationHash();
+    filterStore.updateFilterCriteria(criteria);
+  };
+
+  /**
+   * 共有デッキを読み込む（失敗時はデッキコードモーダルでエラーを表示）
+   */
+  const confirmSharedDeckImport = (): void => {
+    const shared = pendingSharedDeck.value;
+    pendingSharedDeck.value = null;
+    if (!shared) return;
+    deckCodeStore.setImportDeckCode(shared.code);
+    const imported = importDeckFromCode();
+    if (imported && shared.name) deckStore.setDeckName(shared.name);
+    if (deckCodeStore.error) deckCodeStore.showDeckCodeModal = true;
+  };
+
+  const cancelSharedDeckImport = (): void => {
+    pendingSharedDeck.value = null;
+  };
+
+  /**
+   * 旧ストレージからの移行後、カードに依存しない永続化データを読み込む
+   */
+  const prepareStorage = async (): Promise<void> => {
+    const storage =
+      typeof localStorage !== "undefined" ? localStorage : undefined;
+    const kind = getDeckStorageKind();
+    if (kind === "memory") storageIssue.value = "unavailable";
+    try {
+      if (kind === "indexedDb") {
+        await migrateLegacyStorage(getDeckRepository(), storage);
+      }
+    } catch (e) {
+      // 旧データは削除されないため、次回起動時に再度移行を試みる。
+      // それまでに新しいデータを書き込むと再移行で上書きされる（または旧データを隠す）ため、
+      // このセッションは旧データを読み込んだインメモリのリポジトリで継続する
+      console.error("保存データの移行に失敗しました", e);
+      setDeckRepository(
+        createInMemoryDeckRepository(storage ? readLegacyStorage(storage) : {}),
+      );
+      storageIssue.value = "migrationFailed";
+    }
+    await Promise.all([
+      deckManagementStore.loadSavedDecks(),
+      favoritesStore.loadFavorites(),
+      filterPresetsStore.loadFilterPresets(),
+    ]);
   };
 
   /**
@@ -74,13 +213,20 @@ export const useAppStore = defineStore("app", () => {
    * より効率的な非同期処理パターン
    */
   const initializeApp = async (): Promise<void> => {
-    await cardsStore.loadCards();
+    // 制限リスト・永続化データはカードと並行して読み込む（失敗しても継続）
+    await Promise.all([
+      cardsStore.loadCards(),
+      restrictionStore.loadRestrictions(),
+      prepareStorage(),
+    ]);
     // カードの読み込みに失敗した場合は後続の処理をスキップ
     if (cardsStore.error) {
       return;
     }
-    deckStore.initializeDeck(cardsStore.availableCards);
+    await deckStore.initializeDeck(cardsStore.availableCards);
     deckCodeStore.generateDeckCodes();
+    applySharedFilter();
+    detectSharedDeck();
   };
 
   return {
@@ -92,8 +238,23 @@ export const useAppStore = defineStore("app", () => {
     confirmResetDeck,
     cancelResetDeck,
 
+    // Analysis modal
+    showDeckAnalysisModal: readonly(showDeckAnalysisModal),
+    openDeckAnalysisModal,
+    closeDeckAnalysisModal,
+
+    // Storage state
+    storageIssue: readonly(storageIssue),
+    isStorageReadOnly,
+
+    // Shared deck state/actions
+    pendingSharedDeck: readonly(pendingSharedDeck),
+    confirmSharedDeckImport,
+    cancelSharedDeckImport,
+
     // Deck code actions
     importDeckFromCode,
+    importDeckFromQrImage,
     setDeckName,
     loadSavedDeck,
 
@@ -107,5 +268,6 @@ export const useAppStore = defineStore("app", () => {
     deckCodeStore,
     exportStore,
     deckManagementStore,
+    restrictionStore,
   };
 });
@@ -0,0 +1,119 @@
+/**
+ * [spec] アプリデータのバックアップ/復元（Pinia）。
+ * - 責務: 各ストア（デッキ・お気に入り・フィルター条件）の現在の状態からバックアップJSONを作成・ダウンロードし、
+ *   読み込んだファイルを検証して各ストアへ反映する（永続化は各ストアが行う）。
+ * - 検証と適用結果の算出は repositories/backup の純粋関数に委譲する。
+ * - エラーは StorageError として error に保持し、呼び出し側で表示する。
+ */
+import { defineStore } from "pinia";
+import { readonly, ref, shallowRef } from "vue";
+import {
+  createBackupDocument,
+  planBackupRestore,
+  parseBackupDocument,
+  type BackupData,
+  type BackupRestoreMode,
+  type BackupRestoreResult,
+} from "../repositories";
+import { StorageError } from "../utils";
+import { useCardsStore } from "./cards";
+import { useDeckStore } from "./deck";
+import { useDeckManagementStore } from "./deckManagement";
+import { useFavoritesStore } from "./favorites";
+import { useFilterPresetsStore } from "./filterPresets";
+
+export const useBackupStore = defineStore("backup", () => {
+  const cardsStore = useCardsStore();
+  const deckStore = useDeckStore();
+  const deckManagementStore = useDeckManagementStore();
+  const favoritesStore = useFavoritesStore();
+  const filterPresetsStore = useFilterPresetsStore();
+
+  const isProcessing = ref<boolean>(false);
+  const lastResult = shallowRef<BackupRestoreResult | null>(null);
+  const error = shallowRef<StorageError | null>(null);
+
+  const collectCurrentData = (): BackupData => ({
+    workingDeck: deckStore.toWorkingDeckRecord(),
+    savedDecks: deckManagementStore.savedDecks,
+    favoriteIds: favoritesStore.favoriteIds,
+    filterPresets: filterPresetsStore.presets,
+    recentFilters: filterPresetsStore.recentFilters,
+  });
+
+  /**
+   * 全データをバックアップJSONとしてダウンロード
+   */
+  const downloadBackup = (): void => {
+    const now = new Date();
+    const doc = createBackupDocument(collectCurrentData(), now.toISOString());
+    const blob = new Blob([JSON.stringify(doc, null, 2)], {
+      type: "application/json",
+    });
+    const timestamp = now
+      .toLocaleDateString("ja-JP", { timeZone: "Asia/Tokyo" })
+      .replace(/\//g, "-");
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.download = `waic-deckbuilder-backup_${timestamp}.json`;
+    link.href = url;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  /**
+   * バックアップファイルを読み込んで復元
+   * @returns 成功時は適用結果、失敗時は null（error に理由を保持）
+   */
+  const restoreFromFile = async (
+    file: File,
+    mode: BackupRestoreMode,
+  ): Promise<BackupRestoreResult | null> => {
+    if (isProcessing.value) return null; // 再入防止
+    isProcessing.value = true;
+    error.value = null;
+    lastResult.value = null;
+    try {
+      const backup = parseBackupDocument(await file.text());
+      const result = planBackupRestore(collectCurrentData(), backup, mode);
+      deckManagementStore.replaceSavedDecks(result.data.savedDecks);
+      favoritesStore.setFavoriteIds(result.data.favoriteIds);
+      filterPresetsStore.replaceFilterData(
+        result.data.filterPresets,
+        result.data.recentFilters,
+      );
+      if (mode === "replace") {
+        await deckStore.restoreWorkingDeck(
+          result.data.workingDeck,
+          cardsStore.availableCards,
+        );
+      }
+      lastResult.value = result;
+      return result;
+    } catch (e) {
+      error.value =
+        e instanceof StorageError
+          ? e
+          : new StorageError({
+              type: "readError",
+              key: "backup",
+              reason: "バックアップファイルの読み込みに失敗しました",
+              originalError: e,
+            });
+      console.error("バックアップの復元に失敗しました", e);
+      return null;
+    } finally {
+      isProcessing.value = false;
+    }
+  };
+
+  return {
+    isProcessing: readonly(isProcessing),
+    lastResult: readonly(lastResult),
+    error: readonly(error),
+    downloadBackup,
+    restoreFromFile,
+  };
+});
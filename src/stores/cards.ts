@@ -1,6 +1,7 @@
 /**
  * @file カードストア
  * - 取得/検証/キャッシュ/プリロードのオーケストレーション
+ * - 読み込み完了時に検索インデックス（domain/card の CardSearchIndex）を一度だけ構築する
  */
 import { CardDataConverterError } from "../utils/cardDataConverter";
 import { defineStore } from "pinia";
@@ -29,6 +30,11 @@ export const useCardsStore = defineStore("cards", () => {
   // パフォーマンス改善のためのキャッシュ（markRawで最適化）
   const cardByIdCache = markRaw(new Map<string, Readonly<Card>>());
 
+  // 正規化済みのカード検索インデックス（markRawでリアクティブ化を避ける）
+  const searchIndex = shallowRef<CardDomain.CardSearchIndex>(
+    markRaw(CardDomain.createCardSearchIndex([])),
+  );
+
   // シンプルな検索処理
 
   // CardStoreErrorに変換するヘルパー関数
@@ -144,7 +150,11 @@ export const useCardsStore = defineStore("cards", () => {
     if (!searchText || searchText.trim().length === 0) {
       return availableCards.value;
     }
-    return CardDomain.searchCardsByName(availableCards.value, searchText);
+    return CardDomain.searchCardsByName(
+      availableCards.value,
+      searchText,
+      searchIndex.value,
+    );
   };
 
   /**
@@ -172,6 +182,9 @@ export const useCardsStore = defineStore("cards", () => {
       // 成功パス
       availableCards.value = readonly(ensuredCards);
       updateCaches(ensuredCards);
+      searchIndex.value = markRaw(
+        CardDomain.createCardSearchIndex(ensuredCards),
+      );
 
       // 事前プリロードは簡素化のため削除
     } catch (e) {
@@ -208,6 +221,7 @@ export const useCardsStore = defineStore("cards", () => {
     availableCards: readonly(availableCards),
     isLoading: readonly(isLoading),
     error: readonly(error),
+    searchIndex: readonly(searchIndex),
     cardCount,
     hasCards,
     isReady,
@@ -0,0 +1,103 @@
+/**
+ * 編集中デッキのタブ間同期のテスト（競合中は保存・通知しない）。
+ */
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { nextTick } from "vue";
+import { createPinia, setActivePinia } from "pinia";
+import type { Card } from "../types";
+import {
+  createInMemoryDeckRepository,
+  setDeckRepository,
+  type DeckRepository,
+  type WorkingDeckRecord,
+} from "../repositories";
+import { useDeckStore } from "./deck";
+
+// 他のタブとの通信を差し替える
+const channel = vi.hoisted(() => ({
+  handlers: [] as ((message: unknown) => void)[],
+  posted: [] as unknown[],
+}));
+vi.mock("../utils/tabSync", () => ({
+  createTabSyncChannel: () => ({
+    post: (message: unknown) => channel.posted.push(message),
+    subscribe: (handler: (message: unknown) => void) => {
+      channel.handlers.push(handler);
+      return () => {};
+    },
+  }),
+}));
+
+const receive = (record: WorkingDeckRecord): void => {
+  for (const handler of channel.handlers) handler(record);
+};
+
+const CARDS: readonly Card[] = [
+  { id: "AA-1", name: "A", kind: "Artist", type: ["赤"] },
+  { id: "AA-2", name: "B", kind: "Artist", type: ["青"] },
+];
+
+const REMOTE: WorkingDeckRecord = {
+  cards: [{ id: "AA-2", count: 2 }],
+  name: "他のタブ",
+  format: "extra",
+};
+
+describe("useDeckStore のタブ間同期", () => {
+  let repository: DeckRepository;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    channel.handlers.length = 0;
+    channel.posted.length = 0;
+    repository = createInMemoryDeckRepository();
+    setDeckRepository(repository);
+    setActivePinia(createPinia());
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const setupDirtyConflict = async () => {
+    const store = useDeckStore();
+    await store.initializeDeck(CARDS);
+    store.addCardToDeck(CARDS[0]!);
+    await nextTick();
+    receive(REMOTE);
+    return store;
+  };
+
+  it("競合中は保留中の保存を取り消し、編集しても保存・通知しない", async () => {
+    const store = await setupDirtyConflict();
+    expect(store.remoteDeckConflict).toEqual(REMOTE);
+
+    store.addCardToDeck(CARDS[0]!);
+    await nextTick();
+    await vi.runAllTimersAsync();
+
+    expect(await repository.loadWorkingDeck()).toBeNull();
+    expect(channel.posted).toEqual([]);
+  });
+
+  it("確認中に時間が経っても、他タブの内容を採用すればこのタブの変更は保存されない", async () => {
+    const store = await setupDirtyConflict();
+    await vi.runAllTimersAsync();
+    await store.acceptRemoteDeck();
+    await vi.runAllTimersAsync();
+
+    expect(store.remoteDeckConflict).toBeNull();
+    expect(store.deckName).toBe(REMOTE.name);
+    expect(await repository.loadWorkingDeck()).toBeNull();
+    expect(channel.posted).toEqual([]);
+  });
+
+  it("このタブの内容を維持すると保存して他タブへ通知する", async () => {
+    const store = await setupDirtyConflict();
+    await store.keepLocalDeck();
+    await vi.runAllTimersAsync();
+
+    const saved = await repository.loadWorkingDeck();
+    expect(saved?.cards).toEqual([{ id: "AA-1", count: 1 }]);
+    expect(channel.posted).toEqual([saved]);
+  });
+});
@@ -1,33 +1,61 @@
 /**
  * DeckStore（src/stores/deck.ts）
- * 目的: デッキ（カード配列・名称・派生状態）の集中管理とローカルストレージ永続化。
- * 公開API: add/increment/decrement/remove/reset/initialize/set 等（下部参照）。
+ * 目的: デッキ（カード配列・名称・派生状態）の集中管理と DeckRepository への永続化。
+ * 永続化: カード・デッキ名・フォーマットを1レコードとしてデバウンス保存する。
+ * タブ間同期: 保存のたびに他のタブへ通知し、受信側は未保存の変更がなければそのまま反映する。
+ *   未保存の変更がある（両方のタブで編集された）場合は remoteDeckConflict に保持し、
+ *   acceptRemoteDeck/keepLocalDeck でユーザーが選択する。
+ *   選択されるまではこのタブの内容を保存・通知しない（他タブへ確認なしで反映されるのを防ぐ）。
+ * フォーマット: デッキごとに選択し、最大枚数/検証ルール/カードプールを決定する。
+ *   制限リストは RestrictionStore から取得してフォーマットと合成する。
+ * 履歴: 操作/インポート/リセットを DeckHistoryStore に記録し、undo/redo で復元する。
+ * 公開API: add/increment/decrement/remove/reset/initialize/set/undo/redo 等（下部参照）。
  * 不変条件: DeckCard 配列は参照整合性を保ち、外部からは readonly で公開。
  */
 import { defineStore } from "pinia";
 import { ref, computed, watch, readonly, shallowRef } from "vue";
-import type { Card, DeckCard } from "../types";
+import type {
+  Card,
+  DeckCard,
+  DeckHistoryAction,
+  DeckOperationError,
+  FormatId,
+} from "../types";
 import {
-  saveDeckToLocalStorage,
-  loadDeckFromLocalStorage,
-  saveDeckName,
-  loadDeckName,
-  resetDeckCardsInLocalStorage,
-  resetDeckNameInLocalStorage,
   DEFAULT_DECK_NAME,
+  createDebouncedFn,
+  createTabSyncChannel,
+  deserializeDeckCards,
+  serializeDeckCards,
 } from "../utils";
+import { getDeckRepository, type WorkingDeckRecord } from "../repositories";
 import {
+  DEFAULT_FORMAT_ID,
   calculateDeckState,
+  collectViolatingCardIds,
+  createFormatCopyLimitResolver,
+  createFormatRules,
   executeDeckOperation,
+  getFormatById,
+  isBlockingDeckError,
   sortDeckCards,
 } from "../domain";
-import { useDebounceFn, useEventListener } from "@vueuse/core";
+import { useEventListener } from "@vueuse/core";
+import { useRestrictionStore } from "./restriction";
+import { useDeckHistoryStore } from "./history";
 
 export const useDeckStore = defineStore("deck", () => {
   // Vue 3.5の新機能: shallowRef for array performance optimization
   // DeckCard配列の深い監視は不要な場合が多いためshallowRefを使用
   const deckCards = shallowRef<readonly DeckCard[]>([]);
   const deckName = ref<string>(DEFAULT_DECK_NAME);
+  const formatId = ref<FormatId>(DEFAULT_FORMAT_ID);
+  const restrictionStore = useRestrictionStore();
+  const historyStore = useDeckHistoryStore();
+  const repository = getDeckRepository();
+  const syncChannel = createTabSyncChannel<WorkingDeckRecord>("workingDeck");
+  // 他のタブの変更のうち、このタブの未保存の変更と競合したもの
+  const remoteDeckConflict = shallowRef<WorkingDeckRecord | null>(null);
 
   /**
    * 成功時の共通処理：デッキカードを更新
@@ -36,6 +64,18 @@ export const useDeckStore = defineStore("deck", () => {
     deckCards.value = [...newCards];
   };
 
+  /**
+   * デッキカードを更新し、変更を履歴に記録
+   */
+  const commitDeckCard = (
+    action: DeckHistoryAction,
+    newCards: readonly DeckCard[],
+  ): void => {
+    const before = deckCards.value;
+    updateDeckCard(newCards);
+    historyStore.record({ action, before, after: deckCards.value });
+  };
+
   /**
    * Vue 3.5最適化: ソート済みデッキカード
    */
@@ -52,10 +92,28 @@ export const useDeckStore = defineStore("deck", () => {
   });
 
   /**
-   * Vue 3.5最適化: デッキの状態情報
+   * 選択中のフォーマット
+   */
+  const activeFormat = computed(() => getFormatById(formatId.value));
+
+  /**
+   * フォーマットと制限リストに基づくカードごとの最大枚数
+   */
+  const getCopyLimit = computed(() =>
+    createFormatCopyLimitResolver(
+      activeFormat.value,
+      restrictionStore.restrictionList,
+    ),
+  );
+
+  /**
+   * Vue 3.5最適化: デッキの状態情報（フォーマットのルールで検証）
    */
   const deckState = computed(() => {
-    return calculateDeckState(deckCards.value);
+    return calculateDeckState(
+      deckCards.value,
+      createFormatRules(activeFormat.value, restrictionStore.restrictionList),
+    );
   });
 
   /**
@@ -71,19 +129,46 @@ export const useDeckStore = defineStore("deck", () => {
           return `最大枚数を超過しました: ${e.cardId} (最大: ${e.maxCount ?? "不明"})`;
         case "InvalidCardCount":
           return `不正なカード枚数です: ${e.cardId} (指定: ${e.count ?? "不明"})`;
+        case "DeckSizeExceeded":
+          return `デッキが${e.maxCount ?? "不明"}枚を超えています（${e.count ?? "不明"}枚）`;
+        case "DeckSizeInsufficient":
+          return `デッキが${e.minCount ?? "不明"}枚に達していません（${e.count ?? "不明"}枚）`;
+        case "KindCountOutOfRange":
+          if (e.minCount !== undefined && (e.count ?? 0) < e.minCount) {
+            return `${e.kind}が${e.minCount}枚以上必要です（${e.count ?? 0}枚）`;
+          }
+          return `${e.kind}は${e.maxCount ?? "不明"}枚までです（${e.count ?? 0}枚）`;
+        case "BannedCard":
+          return `禁止カードが含まれています: ${e.cardId}`;
+        case "RestrictedCountExceeded":
+          return `制限カードの枚数を超えています: ${e.cardId} (最大: ${e.maxCount ?? "不明"})`;
+        case "NotInFormat":
+          return `このフォーマットでは使用できません: ${e.cardId}`;
         default:
           return "不明なエラー";
       }
     });
   });
 
+  /**
+   * 違反の原因となっているカードID（ハイライト表示用）
+   */
+  const violatingCardIds = computed<ReadonlySet<string>>(() => {
+    if (deckState.value.type !== "invalid") return new Set<string>();
+    return collectViolatingCardIds(deckState.value.errors);
+  });
+
   const applyOperation = (
     operation: Parameters<typeof executeDeckOperation>[1],
     onErrMsg: string,
   ): boolean => {
     try {
-      const result = executeDeckOperation(deckCards.value, operation);
-      updateDeckCard(result);
+      const result = executeDeckOperation(
+        deckCards.value,
+        operation,
+        getCopyLimit.value,
+      );
+      commitDeckCard(operation, result);
       return true;
     } catch (error) {
       console.error(`${onErrMsg}:`, error);
@@ -125,114 +210,207 @@ export const useDeckStore = defineStore("deck", () => {
     );
 
   /**
-   * Vue 3.5最適化: ローカルストレージからデッキを初期化
+   * Vue 3.5最適化: リポジトリからデッキを初期化
    */
   let suppressSave = false;
-  const tryResetDeckCards = (): void => {
+  // 初期化前の保存（読み込み前の空デッキによる上書き）を防ぐ
+  let initialized = false;
+  // 空白のみのデッキ名は保存せず、最後に保存した名前を維持する
+  let lastSavedName: string = DEFAULT_DECK_NAME;
+  // 最後に保存（または他タブから反映）した内容。差分がなければ保存しない
+  let lastPersistedJson = "";
+  // 保存待ちの変更があるかどうか（タブ間の競合判定に使う）
+  let isDirty = false;
+  // 他タブからの反映に使うカード一覧（初期化時に受け取る）
+  let knownCards: readonly Card[] = [];
+
+  const toWorkingDeckRecord = (): WorkingDeckRecord => ({
+    cards: serializeDeckCards(deckCards.value),
+    name: deckName.value.trim() || lastSavedName,
+    format: formatId.value,
+  });
+
+  const saveWorkingDeck = async (): Promise<void> => {
+    if (!initialized || remoteDeckConflict.value) return;
+    const record = toWorkingDeckRecord();
+    isDirty = false;
     try {
-      resetDeckCardsInLocalStorage();
+      await repository.saveWorkingDeck(record);
+      lastSavedName = record.name;
+      lastPersistedJson = JSON.stringify(record);
+      syncChannel.post(record);
     } catch (e) {
-      console.error("不正デッキのクリアに失敗しました", e);
+      console.error("デッキの保存に失敗しました", e);
     }
   };
 
-  const tryResetDeckName = (): void => {
-    try {
-      resetDeckNameInLocalStorage();
-    } catch (e) {
-      console.error("デッキ名のクリアに失敗しました", e);
+  const restoreDeckCards = (
+    stored: WorkingDeckRecord["cards"],
+    availableCards: readonly Card[],
+  ): boolean => {
+    const s = calculateDeckState(deserializeDeckCards(stored, availableCards));
+    switch (s.type) {
+      case "invalid":
+        // レギュレーション違反（枚数不足など）は構築途中として保持する
+        if (!s.errors.some(isBlockingDeckError)) {
+          updateDeckCard(s.cards);
+          return true;
+        }
+        updateDeckCard([]);
+        console.error("保存されたデッキが不正です", s.errors);
+        return false;
+      case "empty":
+        updateDeckCard([]);
+        return true;
+      default:
+        updateDeckCard(s.cards);
+        return true;
     }
   };
-  const initializeDeck = (availableCards: readonly Card[]): void => {
+
+  /**
+   * 永続化形式の編集中デッキを反映する（履歴はクリア）
+   */
+  const applyWorkingDeck = async (
+    record: WorkingDeckRecord | null,
+    availableCards: readonly Card[],
+  ): Promise<void> => {
     const prev = suppressSave;
     suppressSave = true;
+    let valid = true;
     try {
-      // デッキカードの読み込み
-      try {
-        const loadedDeck = loadDeckFromLocalStorage(availableCards);
-        const s = calculateDeckState(loadedDeck);
-        switch (s.type) {
-          case "invalid":
-            updateDeckCard([]);
-            console.error("保存されたデッキが不正です", s.errors);
-            // 永続化された不正データをクリアして再発を防止
-            tryResetDeckCards();
-            break;
-          case "empty":
-            updateDeckCard([]);
-            break;
-          default:
-            updateDeckCard(s.cards);
-        }
-      } catch (e) {
-        updateDeckCard([]);
-        console.error("デッキの読み込みに失敗しました", e);
-      }
-
-      // デッキ名の読み込み（独立して処理）
-      try {
-        const loadedName = loadDeckName();
-        const n = loadedName.trim();
-        deckName.value = n || DEFAULT_DECK_NAME;
-      } catch (e) {
-        deckName.value = DEFAULT_DECK_NAME;
-        console.error("デッキ名の読み込みに失敗しました", e);
-        tryResetDeckName();
-      }
+      valid = restoreDeckCards(record?.cards ?? [], availableCards);
+      deckName.value = record?.name ?? DEFAULT_DECK_NAME;
+      formatId.value = record?.format ?? DEFAULT_FORMAT_ID;
+      lastSavedName = deckName.value;
+      lastPersistedJson = JSON.stringify(toWorkingDeckRecord());
+      isDirty = false;
     } finally {
       suppressSave = prev;
     }
+    knownCards = availableCards;
+    historyStore.clear();
+    initialized = true;
+    // 永続化された不正データをクリアして再発を防止
+    if (!valid) await saveWorkingDeck();
+  };
+
+  const initializeDeck = async (
+    availableCards: readonly Card[],
+  ): Promise<void> => {
+    let record: WorkingDeckRecord | null = null;
+    try {
+      record = await repository.loadWorkingDeck();
+    } catch (e) {
+      console.error("デッキの読み込みに失敗しました", e);
+    }
+    await applyWorkingDeck(record, availableCards);
+  };
+
+  /**
+   * バックアップ等から編集中デッキを置き換え、即時保存する
+   */
+  const restoreWorkingDeck = async (
+    record: WorkingDeckRecord,
+    availableCards: readonly Card[],
+  ): Promise<void> => {
+    debouncedSave.cancel();
+    remoteDeckConflict.value = null; // 明示的な置き換えで競合は解消する
+    await applyWorkingDeck(record, availableCards);
+    await saveWorkingDeck();
+  };
+
+  /**
+   * 他のタブで保存された編集中デッキを受信
+   */
+  syncChannel.subscribe((record) => {
+    if (!initialized) return;
+    if (JSON.stringify(record) === lastPersistedJson) return;
+    if (isDirty || remoteDeckConflict.value) {
+      remoteDeckConflict.value = record; // 最新の内容で競合を更新
+      debouncedSave.cancel();
+      return;
+    }
+    void applyWorkingDeck(record, knownCards);
+  });
+
+  /**
+   * 競合した他タブの内容を採用（このタブの未保存の変更は破棄）
+   */
+  const acceptRemoteDeck = async (): Promise<void> => {
+    const record = remoteDeckConflict.value;
+    if (!record) return;
+    remoteDeckConflict.value = null;
+    debouncedSave.cancel();
+    await applyWorkingDeck(record, knownCards);
+  };
+
+  /**
+   * 競合した他タブの内容を破棄し、このタブの内容を保存（他タブへも通知）
+   */
+  const keepLocalDeck = async (): Promise<void> => {
+    if (!remoteDeckConflict.value) return;
+    remoteDeckConflict.value = null;
+    debouncedSave.cancel();
+    await saveWorkingDeck();
   };
 
   /**
    * Vue 3.5最適化: デッキカードを設定
+   * @returns 設定を拒否した原因のブロッキングな違反（設定できた場合は空配列）
    */
-  const setDeckCards = (cards: readonly DeckCard[]) => {
+  const setDeckCards = (
+    cards: readonly DeckCard[],
+  ): readonly DeckOperationError[] => {
     const state = calculateDeckState(cards);
+    // レギュレーション違反は表示側で通知するため、ブロッキングな違反のみ拒否
     if (state.type === "invalid") {
-      console.error("無効なデッキです", state.errors);
-      return;
+      const blockingErrors = state.errors.filter(isBlockingDeckError);
+      if (blockingErrors.length > 0) {
+        console.error("無効なデッキです", state.errors);
+        return blockingErrors;
+      }
     }
-    if (state.type === "empty") updateDeckCard([]);
-    else updateDeckCard(state.cards);
+    commitDeckCard(
+      { type: "import" },
+      state.type === "empty" ? [] : state.cards,
+    );
+    return [];
   };
 
   /**
    * Vue 3.5最適化: デッキカードをリセット
    */
   const resetDeckCards = () => {
-    try {
-      resetDeckCardsInLocalStorage();
-    } catch (r) {
-      console.error("デッキカードのリセットに失敗しました", r);
-      return;
-    }
-    const prev = suppressSave;
-    suppressSave = true;
-    try {
-      updateDeckCard([]);
-    } finally {
-      suppressSave = prev;
-    }
+    if (deckCards.value.length === 0) return;
+    commitDeckCard({ type: "reset" }, []);
+  };
+
+  /**
+   * 直前の変更を元に戻す
+   */
+  const undo = (): boolean => {
+    const entry = historyStore.popUndo();
+    if (!entry) return false;
+    updateDeckCard(entry.before);
+    return true;
+  };
+
+  /**
+   * 元に戻した変更をやり直す
+   */
+  const redo = (): boolean => {
+    const entry = historyStore.popRedo();
+    if (!entry) return false;
+    updateDeckCard(entry.after);
+    return true;
   };
 
   /**
    * デッキ名をリセット
    */
   const resetDeckName = () => {
-    try {
-      resetDeckNameInLocalStorage();
-    } catch (r) {
-      console.error("デッキ名のリセットに失敗しました", r);
-      return;
-    }
-    const prev = suppressSave;
-    suppressSave = true;
-    try {
-      deckName.value = DEFAULT_DECK_NAME;
-    } finally {
-      suppressSave = prev;
-    }
+    deckName.value = DEFAULT_DECK_NAME;
   };
 
   /**
@@ -244,50 +422,35 @@ export const useDeckStore = defineStore("deck", () => {
     deckName.value = name;
   };
 
-  // Vue 3.5の新機能: より効率的なデバウンス処理
+  /**
+   * フォーマットを設定
+   */
+  const setFormat = (id: FormatId): void => {
+    if (formatId.value === id) return;
+    formatId.value = id;
+  };
+
   // maxWaitオプションで最大待機時間を制限し、ページアンロード時の保存漏れを防ぐ
-  type FlushableFn<T extends unknown[]> = ((...args: T) => void) & {
-    flush: () => void;
-    cancel: () => void;
+  // カード・デッキ名・フォーマットは1レコードとしてまとめて保存する
+  // 他タブの内容の採用時などに保留中の保存を確実に破棄できるよう、取り消し可能なデバウンスを使う
+  const debouncedSave = createDebouncedFn(() => void saveWorkingDeck(), 500, {
+    maxWait: 2000,
+  });
+
+  // 保存済みの内容から変化していれば保存を予約する
+  const scheduleSave = (): void => {
+    if (suppressSave || !initialized) return;
+    if (JSON.stringify(toWorkingDeckRecord()) === lastPersistedJson) return;
+    isDirty = true;
+    // 競合の解決（acceptRemoteDeck/keepLocalDeck）までは保存しない
+    if (remoteDeckConflict.value) return;
+    debouncedSave();
   };
-  const debouncedSave = useDebounceFn(
-    (cards: readonly DeckCard[]) => {
-      try {
-        saveDeckToLocalStorage(cards);
-      } catch (e) {
-        console.error("デッキの保存に失敗しました", e);
-      }
-    },
-    500,
-    { maxWait: 2000 },
-  ) as unknown as FlushableFn<[readonly DeckCard[]]>;
-
-  const debouncedSaveName = useDebounceFn(
-    (name: string) => {
-      const trimmed = name.trim();
-      if (!trimmed) return; // 空は保存しない（次の有効入力まで待つ）
-      try {
-        saveDeckName(trimmed);
-      } catch (e) {
-        console.error("デッキ名の保存に失敗しました", e);
-      }
-    },
-    500,
-    { maxWait: 2000 },
-  ) as unknown as FlushableFn<[string]>;
 
   // Vue 3.5最適化: watch で副作用を管理（shallowRef なので浅い監視で十分）
-  watch(
-    deckCards,
-    (newCards) => {
-      if (!suppressSave) debouncedSave(newCards);
-    },
-    { deep: false, flush: "post" }, // shallowRefなので浅い監視で十分
-  );
-
-  watch(deckName, (newName) => {
-    if (!suppressSave) debouncedSaveName(newName);
-  });
+  watch(deckCards, scheduleSave, { deep: false, flush: "post" }); // shallowRefなので浅い監視で十分
+  watch(deckName, scheduleSave);
+  watch(formatId, scheduleSave);
 
   // ページアンロード時の保存保証
   let lastImmediateSaveAt = 0;
@@ -297,26 +460,14 @@ export const useDeckStore = defineStore("deck", () => {
       ? performance.now()
       : Date.now();
   const handleBeforeUnload = () => {
+    if (!isDirty) return; // 保存済みなら不要（タブ切替のたびに他タブへ通知しない）
     const now = nowMs();
     if (now - lastImmediateSaveAt < MIN_SAVE_INTERVAL_MS) return;
     lastImmediateSaveAt = now;
-    // 未処理のデバウンスを反映/無効化してから直接保存
-    debouncedSave.flush?.();
-    debouncedSaveName.flush?.();
-    // 念のため後続の遅延保存を打ち切る
-    debouncedSave.cancel?.();
-    debouncedSaveName.cancel?.();
-    try {
-      saveDeckToLocalStorage(deckCards.value);
-    } catch (r1) {
-      console.error("デッキの即時保存に失敗しました", r1);
-    }
-    try {
-      const trimmed = deckName.value.trim();
-      if (trimmed) saveDeckName(trimmed);
-    } catch (r2) {
-      console.error("デッキ名の即時保存に失敗しました", r2);
-    }
+    // 保留中の遅延保存をその場で実行する
+    // （IndexedDB のトランザクションは開始済みであればページ破棄後も完了する）
+    if (debouncedSave.isPending()) debouncedSave.flush();
+    else void saveWorkingDeck();
   };
 
   // ブラウザ環境でのみイベントリスナーを設定
@@ -336,12 +487,19 @@ export const useDeckStore = defineStore("deck", () => {
     // State
     deckCards: readonly(deckCards),
     deckName: readonly(deckName),
+    formatId: readonly(formatId),
+    remoteDeckConflict: readonly(remoteDeckConflict),
 
     // Computed
+    activeFormat,
+    getCopyLimit,
     sortedDeckCards,
     totalDeckCards,
     deckState,
     deckErrors,
+    violatingCardIds,
+    canUndo: computed(() => historyStore.canUndo),
+    canRedo: computed(() => historyStore.canRedo),
 
     // Actions
     addCardToDeck,
@@ -349,9 +507,16 @@ export const useDeckStore = defineStore("deck", () => {
     decrementCardCount,
     removeCardFromDeck,
     initializeDeck,
+    restoreWorkingDeck,
+    toWorkingDeckRecord,
+    acceptRemoteDeck,
+    keepLocalDeck,
     setDeckCards,
     resetDeckCards,
     resetDeckName,
     setDeckName,
+    setFormat,
+    undo,
+    redo,
   };
 });
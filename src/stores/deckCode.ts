@@ -2,21 +2,25 @@
  * 仕様:
  * - 目的: デッキコードの生成/判定/インポート(Store)
  * - 入力: deckStore.deckCards / importDeckCode
- * - 出力: slashDeckCode, kcgDeckCode, デッキセット、副作用: クリップボード
- * - 形式: "slash"（decodeDeckCode 内でスキーマ/構文検証）, "kcg"（"KCG-"接頭辞）
+ * - 出力: generatedCodes（登録済みの全形式）, kcgDeckCode（保存デッキ用）, デッキセット、副作用: クリップボード
+ * - QRコード: 画像から読み取った文字列を importDeckCode に設定し、通常のインポートと同じ経路で取り込む。
+ * - 形式: utils/deckCodeFormats のレジストリ（DECK_CODE_FORMATS）に従って生成・判定・デコードする。
+ *   見つからないカードID・解釈できない行・上限に揃えた枚数は、インポート成功時も警告として error に保持する。
+ * - デッキとして保持できない内容（DeckStore.setDeckCards が拒否）はインポート失敗として error に保持する。
  * - エラー方針: DeckCodeError を UI へ伝播（validation/decode/copy/generation）
  */
 import { defineStore } from "pinia";
-import { ref } from "vue";
+import { computed, ref, shallowRef } from "vue";
 import { useClipboard } from "@vueuse/core";
-import type { Card, DeckCard } from "../types";
+import type { Card, DeckCodeDecodeResult, GeneratedDeckCode } from "../types";
 import { DeckCodeError } from "../types";
 import {
-  decodeDeckCode,
-  decodeKcgDeckCode,
-  encodeKcgDeckCode,
-  toDeckCardsFromCardIds,
+  DECK_CODE_FORMATS,
+  detectDeckCodeFormat,
+  kcgDeckCodeFormat,
+  readQrCodeFromImage,
 } from "../utils";
+import { GAME_CONSTANTS } from "../constants";
 import { sortDeckCards } from "../domain";
 import { useDeckStore } from "./deck";
 
@@ -28,9 +32,27 @@ function buildNoValidCardsMessage(missing: readonly string[]): string {
   return msg;
 }
 
+// インポート結果の警告（見つからないカードID・解釈できない行・上限に揃えた枚数）
+function buildImportWarnings(result: DeckCodeDecodeResult): string[] {
+  return [
+    ...(result.missingCardIds.length > 0
+      ? [`見つからないカードID: ${result.missingCardIds.join(", ")}`]
+      : []),
+    ...(result.unmatchedLines.length > 0
+      ? [`読み込めなかった行: ${result.unmatchedLines.join(", ")}`]
+      : []),
+    ...(result.clampedCardIds.length > 0
+      ? [
+          `枚数を上限（${GAME_CONSTANTS.MAX_CARD_COPIES}枚）に揃えたカード: ${result.clampedCardIds.join(", ")}`,
+        ]
+      : []),
+  ];
+}
+
+const SUPPORTED_FORMATS_MESSAGE = `サポートされていないデッキコード形式です。対応形式: ${DECK_CODE_FORMATS.map((f) => f.label).join("、")}`;
+
 export const useDeckCodeStore = defineStore("deckCode", () => {
-  const slashDeckCode = ref<string>(""); // スラッシュ区切りコード
-  const kcgDeckCode = ref<string>(""); // KCG形式コード
+  const generatedCodes = shallowRef<readonly GeneratedDeckCode[]>([]);
   const importDeckCode = ref<string>("");
   const isGeneratingCode = ref<boolean>(false);
   const showDeckCodeModal = ref<boolean>(false);
@@ -40,28 +62,40 @@ export const useDeckCodeStore = defineStore("deckCode", () => {
 
   const { copy: copyToClipboard, isSupported } = useClipboard();
 
+  const findGeneratedCode = (formatId: string): string =>
+    generatedCodes.value.find((c) => c.formatId === formatId)?.value ?? "";
+
+  // 保存デッキ・共有に使う KCG形式コード
+  const kcgDeckCode = computed(() => findGeneratedCode(kcgDeckCodeFormat.id));
+
   /**
-   * デッキコードを生成
+   * デッキコードを生成（生成に失敗した形式は一覧から除き、error に記録）
    */
   const generateDeckCodes = (): void => {
     isGeneratingCode.value = true;
     error.value = null;
     try {
       if (deckStore.deckCards.length === 0) {
-        slashDeckCode.value = "";
-        kcgDeckCode.value = "";
-      } else {
+        generatedCodes.value = [];
+        return;
+      }
+      const context = {
         // デッキカードをソートしてからエンコード
-        const sortedDeck = sortDeckCards([...deckStore.deckCards]);
-        const cardIds = sortedDeck.flatMap((item: DeckCard) =>
-          Array(item.count).fill(item.card.id),
-        );
-
-        slashDeckCode.value = cardIds.join("/");
+        deckCards: sortDeckCards([...deckStore.deckCards]),
+        deckName: deckStore.deckName,
+        origin: typeof window !== "undefined" ? window.location.origin : "",
+      };
+      const codes: GeneratedDeckCode[] = [];
+      for (const format of DECK_CODE_FORMATS) {
         try {
-          kcgDeckCode.value = encodeKcgDeckCode(cardIds);
+          codes.push({
+            formatId: format.id,
+            label: format.label,
+            multiline: format.multiline,
+            value: format.encode(context),
+          });
         } catch (e) {
-          const errorMessage = "KCG形式デッキコードの生成に失敗しました";
+          const errorMessage = `${format.label}の生成に失敗しました`;
           console.error(errorMessage + ":", e);
           error.value = new DeckCodeError({
             type: "generation",
@@ -71,16 +105,9 @@ export const useDeckCodeStore = defineStore("deckCode", () => {
                 : errorMessage,
             originalError: e,
           });
-          return;
         }
       }
-    } catch (e) {
-      const errorMessage = "デッキコードの生成に失敗しました";
-      console.error(errorMessage + ":", e);
-      error.value = new DeckCodeError({
-        type: "generation",
-        message: errorMessage,
-      });
+      generatedCodes.value = codes;
     } finally {
       isGeneratingCode.value = false;
     }
@@ -96,15 +123,16 @@ export const useDeckCodeStore = defineStore("deckCode", () => {
 
   /**
    * デッキコードをクリップボードにコピー
-   * @param codeType コピーするコードの種類 ('slash' or 'kcg')
+   * @param formatId コピーする形式のID（DECK_CODE_FORMATS の id）
    */
-  const copyDeckCode = async (codeType: "slash" | "kcg"): Promise<void> => {
+  const copyDeckCode = async (formatId: string): Promise<void> => {
     error.value = null;
-    const codeToCopy =
-      codeType === "slash" ? slashDeckCode.value : kcgDeckCode.value;
+    const label =
+      DECK_CODE_FORMATS.find((f) => f.id === formatId)?.label ?? "デッキコード";
+    const codeToCopy = findGeneratedCode(formatId);
 
     if (!codeToCopy) {
-      const msg = `${codeType === "slash" ? "スラッシュ区切り" : "KCG形式"}デッキコードが空です`;
+      const msg = `${label}が空です`;
       error.value = new DeckCodeError({ type: "copy", message: msg });
       return;
     }
@@ -119,26 +147,16 @@ export const useDeckCodeStore = defineStore("deckCode", () => {
     try {
       await copyToClipboard(codeToCopy);
     } catch (e) {
-      const errorMessage = `${codeType === "slash" ? "スラッシュ区切り" : "KCG形式"}デッキコードのコピーに失敗しました`;
+      const errorMessage = `${label}のコピーに失敗しました`;
       console.error(errorMessage + ":", e);
       error.value = new DeckCodeError({ type: "copy", message: errorMessage });
     }
   };
 
   /**
-   * デッキコード形式を判定
-   */
-  const detectDeckCodeFormat = (code: string): "kcg" | "slash" | "unknown" => {
-    const s = code.trim();
-    if (s.startsWith("KCG-")) return "kcg";
-    if (s.includes("/")) return "slash";
-    return "unknown";
-  };
-
-  /**
-   * デッキコードからインポート（統合版）
+   * デッキコードからインポート（形式はレジストリで判定）
    */
-  const importDeckFromCode = (availableCards: readonly Card[]): void => {
+  const importDeckFromCode = (availableCards: readonly Card[]): boolean => {
     error.value = null;
 
     // 入力検証：空文字列チェック
@@ -148,127 +166,99 @@ export const useDeckCodeStore = defineStore("deckCode", () => {
         type: "validation",
         message: warningMessage,
       });
-      return;
+      return false;
     }
 
     const trimmedCode = importDeckCode.value.trim();
 
     // デッキコード形式を判定
     const format = detectDeckCodeFormat(trimmedCode);
+    if (!format) {
+      error.value = new DeckCodeError({
+        type: "validation",
+        message: SUPPORTED_FORMATS_MESSAGE,
+      });
+      return false;
+    }
 
+    let result: DeckCodeDecodeResult;
     try {
-      if (format === "kcg") {
-        // KCG形式の処理
-
-        let cardIds: string[];
-        try {
-          cardIds = decodeKcgDeckCode(trimmedCode);
-        } catch (e) {
-          // KCGデコードエラーの処理
-          const errorMessage =
-            e instanceof DeckCodeError && e.message
-              ? e.message
-              : "KCG形式のデッキコードのデコードに失敗しました";
-          error.value = new DeckCodeError({
-            type: "decode",
-            message: errorMessage,
-            originalError: e,
-          });
-          return;
-        }
-
-        if (cardIds.length > 0) {
-          const result = toDeckCardsFromCardIds(cardIds, availableCards);
-
-          if (result.deckCards.length > 0) {
-            deckStore.setDeckCards(result.deckCards);
-            importDeckCode.value = "";
-            showDeckCodeModal.value = false;
-
-            // 見つからないカードIDがある場合は警告メッセージも表示
-            if (result.missingCardIds.length > 0) {
-              const missingCardsMessage = `見つからないカードID: ${result.missingCardIds.join(", ")}`;
-              error.value = new DeckCodeError({
-                type: "decode",
-                message: `KCG形式のデッキをインポートしました（${result.deckCards.length}種類のカード）。\n${missingCardsMessage}`,
-              });
-            } else {
-            }
-          } else {
-            const warningMessage = buildNoValidCardsMessage(
-              result.missingCardIds,
-            );
-            error.value = new DeckCodeError({
-              type: "decode",
-              message: warningMessage,
-            });
-          }
-        } else {
-          const warningMessage =
-            "デッキコードからカード情報を取得できませんでした。";
-          error.value = new DeckCodeError({
-            type: "decode",
-            message: warningMessage,
-          });
-        }
-      } else if (format === "slash") {
-        // decodeDeckCode 内でスキーマ検証を行うため、ここでは追加検証しない
-        let importedCards: DeckCard[];
-        let missingCardIds: string[];
-        try {
-          const result = decodeDeckCode(trimmedCode, availableCards);
-          importedCards = result.deckCards;
-          missingCardIds = result.missingCardIds;
-        } catch (e) {
-          const errorMessage =
-            e instanceof DeckCodeError && e.message
-              ? e.message
-              : "デッキコードのデコードに失敗しました";
-          error.value = new DeckCodeError({
-            type: "decode",
-            message: errorMessage,
-            originalError: e,
-          });
-          return;
-        }
-
-        if (importedCards.length > 0) {
-          deckStore.setDeckCards(importedCards);
-          importDeckCode.value = "";
-          showDeckCodeModal.value = false;
-
-          if (missingCardIds.length > 0) {
-            const missingCardsMessage = `見つからないカードID: ${missingCardIds.join(", ")}`;
-            error.value = new DeckCodeError({
-              type: "decode",
-              message: `スラッシュ区切り形式のデッキをインポートしました（${importedCards.length}種類のカード）。\n${missingCardsMessage}`,
-            });
-          } else {
-          }
-        } else {
-          const warningMessage = buildNoValidCardsMessage(missingCardIds);
-          error.value = new DeckCodeError({
-            type: "decode",
-            message: warningMessage,
-          });
-        }
-      } else {
-        // 未知の形式
-        const warningMessage =
-          "サポートされていないデッキコード形式です。スラッシュ区切り形式またはKCG形式（KCG-で始まる）を使用してください。";
-        error.value = new DeckCodeError({
-          type: "validation",
-          message: warningMessage,
-        });
-      }
+      result = format.decode(trimmedCode, availableCards);
     } catch (e) {
-      const errorMessage = "デッキコードの復元に失敗しました";
+      // 形式ごとのエラー種別（破損検出の validation など）はそのまま伝える
+      if (e instanceof DeckCodeError && e.message) {
+        error.value = e;
+        return false;
+      }
+      const errorMessage = `${format.label}のデコードに失敗しました`;
       console.error(errorMessage + ":", e);
       error.value = new DeckCodeError({
         type: "decode",
         message: errorMessage,
+        originalError: e,
+      });
+      return false;
+    }
+
+    const warnings = buildImportWarnings(result);
+    if (result.deckCards.length === 0) {
+      error.value = new DeckCodeError({
+        type: "decode",
+        message:
+          result.unmatchedLines.length > 0
+            ? [buildNoValidCardsMessage([]), ...warnings].join("\n")
+            : buildNoValidCardsMessage(result.missingCardIds),
+      });
+      return false;
+    }
+
+    const blockingErrors = deckStore.setDeckCards(result.deckCards);
+    if (blockingErrors.length > 0) {
+      error.value = new DeckCodeError({
+        type: "validation",
+        message: [
+          "デッキとして読み込めない内容が含まれています",
+          ...blockingErrors.map((e) => e.message),
+        ].join("\n"),
+        originalError: blockingErrors,
+      });
+      return false;
+    }
+    importDeckCode.value = "";
+    showDeckCodeModal.value = false;
+
+    // 見つからないカードID等がある場合は警告メッセージも表示
+    if (warnings.length > 0) {
+      error.value = new DeckCodeError({
+        type: "decode",
+        message: `${format.label}のデッキをインポートしました（${result.deckCards.length}種類のカード）。\n${warnings.join("\n")}`,
       });
     }
+    return true;
+  };
+
+  /**
+   * 画像のQRコードを読み取ってインポート
+   */
+  const importDeckFromQrImage = async (
+    image: Blob,
+    availableCards: readonly Card[],
+  ): Promise<boolean> => {
+    error.value = null;
+    try {
+      importDeckCode.value = await readQrCodeFromImage(image);
+    } catch (e) {
+      error.value =
+        e instanceof DeckCodeError
+          ? e
+          : new DeckCodeError({
+              type: "decode",
+              message: "QRコードの読み取りに失敗しました",
+              originalError: e,
+            });
+      return false;
+    }
+    return importDeckFromCode(availableCards);
   };
 
   /**
@@ -279,7 +269,7 @@ export const useDeckCodeStore = defineStore("deckCode", () => {
   };
 
   return {
-    slashDeckCode,
+    generatedCodes,
     kcgDeckCode,
     importDeckCode,
     isGeneratingCode,
@@ -289,6 +279,7 @@ export const useDeckCodeStore = defineStore("deckCode", () => {
     generateAndShowDeckCode,
     copyDeckCode,
     importDeckFromCode,
+    importDeckFromQrImage,
     setImportDeckCode,
   };
 });
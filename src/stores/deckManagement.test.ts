@@ -0,0 +1,61 @@
+/**
+ * 保存デッキの上書き・付加情報の編集のテスト（メモ・タグ・フォルダを失わない）。
+ */
+import { beforeEach, describe, expect, it } from "vitest";
+import { createPinia, setActivePinia } from "pinia";
+import {
+  createInMemoryDeckRepository,
+  setDeckRepository,
+} from "../repositories";
+import { useDeckManagementStore } from "./deckManagement";
+
+const METADATA = {
+  notes: "大会用の調整",
+  tags: ["大会用", "赤"],
+  folder: "大会",
+} as const;
+
+describe("useDeckManagementStore", () => {
+  beforeEach(async () => {
+    setDeckRepository(createInMemoryDeckRepository());
+    setActivePinia(createPinia());
+    await useDeckManagementStore().loadSavedDecks();
+  });
+
+  it("上書き保存しても付加情報を引き継ぎ、直前の版を履歴に残す", () => {
+    const store = useDeckManagementStore();
+    const first = store.saveDeck({
+      name: "デッキ",
+      code: "KCG-rDLXC",
+      ...METADATA,
+    });
+
+    const second = store.saveDeck({ name: "デッキ", code: "KCG-rDLPE" });
+
+    expect(second).toMatchObject({ id: first?.id, code: "KCG-rDLPE" });
+    expect(second).toMatchObject(METADATA);
+    expect(second?.revisions.map((r) => r.code)).toEqual(["KCG-rDLXC"]);
+    expect(store.savedDecks).toHaveLength(1);
+  });
+
+  it("付加情報だけを変更し、コード・版履歴・更新日時は維持する", () => {
+    const store = useDeckManagementStore();
+    store.saveDeck({ name: "デッキ", code: "KCG-rDLXC", ...METADATA });
+    const saved = store.saveDeck({ name: "デッキ", code: "KCG-rDLPE" })!;
+
+    expect(
+      store.updateDeckMetadata(saved.id, {
+        notes: "",
+        tags: [" 調整中 ", "調整中"],
+      }),
+    ).toBe(true);
+
+    expect(store.findDeckById(saved.id)).toEqual({
+      ...saved,
+      notes: "",
+      tags: ["調整中"],
+      folder: METADATA.folder,
+    });
+    expect(store.updateDeckMetadata("unknown", { notes: "x" })).toBe(false);
+  });
+});
@@ -1,73 +1,263 @@
 /**
  * 仕様:
  * - 目的: デッキの永続化（保存/削除/管理モーダル制御）
- * - 永続化: localStorage（Valibot でスキーマ検証）
- * - 入力: deckName, deckCode
- * - 出力: savedDecks、モーダル開閉フラグ
+ * - 永続化: DeckRepository（検証・旧形式の移行はリポジトリ側）。読み込みは loadSavedDecks、変更のたびに全体を保存
+ * - 入力: SavedDeckInput（名前・コード・メモ・タグ・フォルダ・フォーマット）
+ * - 出力: savedDecks、検索/並び替え/フォルダ分けした一覧、モーダル開閉フラグ
+ * - 同名保存: 既存デッキを更新する（id/createdAt は維持）。上書きの確認は呼び出し側で行う
+ *   入力で省略したメモ・タグ・フォルダは既存の値を引き継ぐ
+ * - 付加情報の編集: updateDeckMetadata でメモ・タグ・フォルダのみを変更する（コード・版履歴・更新日時は維持）
+ * - 版履歴: コードが変わる更新/復元のたびに直前の版を revisions に積む（最大 MAX_SAVED_DECK_REVISIONS 件）
+ * - タブ間同期: 保存後に他のタブへ一覧を通知し、受信側はそのまま反映する（再保存はしない）
  * - エラー方針: 無効データは読み込み時に破棄（必要に応じて warn ログ）
  */
 import { defineStore } from "pinia";
-import { ref } from "vue";
-import { useLocalStorage } from "@vueuse/core";
-import * as v from "valibot";
+import { computed, ref, toRaw, watch } from "vue";
+import type {
+  SavedDeck,
+  SavedDeckInput,
+  SavedDeckMetadataInput,
+  SavedDeckRevision,
+  SavedDeckSortKey,
+} from "../types";
+import {
+  MAX_SAVED_DECK_REVISIONS,
+  createTabSyncChannel,
+  generateSavedDeckId,
+} from "../utils";
+import { DEFAULT_FORMAT_ID } from "../domain";
+import { getDeckRepository } from "../repositories";
 import { useDeckCodeStore } from "./deckCode";
 
-interface SavedDeck {
-  name: string;
-  code: string;
-}
+// 並び替えの比較関数（更新日時・作成日時は新しい順、名前は昇順）
+const SORT_COMPARATORS: Readonly<
+  Record<SavedDeckSortKey, (a: SavedDeck, b: SavedDeck) => number>
+> = {
+  updatedAt: (a, b) => b.updatedAt.localeCompare(a.updatedAt),
+  createdAt: (a, b) => b.createdAt.localeCompare(a.createdAt),
+  name: (a, b) => a.name.localeCompare(b.name, "ja"),
+};
+
+const normalizeTags = (tags: readonly string[]): string[] => [
+  ...new Set(tags.map((t) => t.trim()).filter((t) => t !== "")),
+];
+
+// 現在の版を履歴の先頭に積んだ revisions を返す（コードが同じなら積まない）
+const pushRevision = (
+  deck: SavedDeck,
+  nextCode: string,
+): readonly SavedDeckRevision[] => {
+  if (deck.code === nextCode) return deck.revisions;
+  const current: SavedDeckRevision = {
+    id: generateSavedDeckId(),
+    savedAt: deck.updatedAt,
+    code: deck.code,
+  };
+  return [current, ...deck.revisions].slice(0, MAX_SAVED_DECK_REVISIONS);
+};
 
 export const useDeckManagementStore = defineStore("deckManagement", () => {
   const isDeckManagementModalOpen = ref(false);
-  const SavedDeckSchema = v.array(
-    v.object({
-      name: v.pipe(v.string(), v.trim(), v.nonEmpty()),
-      code: v.pipe(v.string(), v.trim(), v.nonEmpty()),
-    }),
-  );
-  const savedDecks = useLocalStorage<SavedDeck[]>("savedDecks", [], {
-    serializer: {
-      read: (raw: string): SavedDeck[] => {
-        try {
-          const data = JSON.parse(raw) as unknown;
-          const result = v.safeParse(SavedDeckSchema, data);
-          return result.success ? (result.output as SavedDeck[]) : [];
-        } catch {
-          return [];
-        }
-      },
-      write: (value: SavedDeck[]) => JSON.stringify(value),
-    },
-    writeDefaults: true,
-  });
+  const repository = getDeckRepository();
+  const savedDecks = ref<SavedDeck[]>([]);
+  // 読み込み完了前は保存しない（空一覧による上書きを防ぐ）
+  let isLoaded = false;
   const deckCodeStore = useDeckCodeStore();
 
-  // LocalStorage使用のためロード/保存関数は不要
+  /**
+   * 永続化された保存デッキを読み込む
+   */
+  const loadSavedDecks = async (): Promise<void> => {
+    try {
+      savedDecks.value = [...(await repository.loadSavedDecks())];
+      isLoaded = true;
+    } catch (e) {
+      console.error("保存デッキの読み込みに失敗しました", e);
+    }
+  };
+
+  const syncChannel = createTabSyncChannel<SavedDeck[]>("savedDecks");
+  // 他のタブから受信した一覧（保存済みのため再保存しない）
+  let remoteDecks: SavedDeck[] | null = null;
+  syncChannel.subscribe((decks) => {
+    if (!isLoaded) return;
+    remoteDecks = decks;
+    savedDecks.value = decks;
+  });
+
+  watch(savedDecks, (decks) => {
+    if (!isLoaded || toRaw(decks) === remoteDecks) return;
+    repository
+      .saveSavedDecks(decks)
+      .then(() => syncChannel.post(decks))
+      .catch((e: unknown) => {
+        console.error("保存デッキの保存に失敗しました", e);
+      });
+  });
 
-  // デッキを保存する
-  const saveDeck = (deckName: string, deckCode: string) => {
+  // 一覧の表示条件
+  const searchQuery = ref<string>("");
+  const sortKey = ref<SavedDeckSortKey>("updatedAt");
+
+  /**
+   * 検索・並び替え済みの保存デッキ
+   * - 検索対象: 名前・メモ・タグ・フォルダ（大文字小文字を区別しない）
+   */
+  const filteredDecks = computed<readonly SavedDeck[]>(() => {
+    const q = searchQuery.value.trim().toLowerCase();
+    const matched = q
+      ? savedDecks.value.filter((d) =>
+          [d.name, d.notes, d.folder, ...d.tags].some((s) =>
+            s.toLowerCase().includes(q),
+          ),
+        )
+      : savedDecks.value;
+    return [...matched].sort(SORT_COMPARATORS[sortKey.value]);
+  });
+
+  /**
+   * フォルダごとにまとめた保存デッキ（フォルダ名順、未分類は末尾）
+   */
+  const decksByFolder = computed<
+    readonly { folder: string; decks: readonly SavedDeck[] }[]
+  >(() => {
+    const groups = new Map<string, SavedDeck[]>();
+    for (const deck of filteredDecks.value) {
+      const list = groups.get(deck.folder) ?? [];
+      list.push(deck);
+      groups.set(deck.folder, list);
+    }
+    return [...groups]
+      .map(([folder, decks]) => ({ folder, decks }))
+      .sort((a, b) => {
+        if (a.folder === "" || b.folder === "") return a.folder === "" ? 1 : -1;
+        return a.folder.localeCompare(b.folder, "ja");
+      });
+  });
+
+  /**
+   * 既存のフォルダ名（入力補完用）
+   */
+  const folders = computed<readonly string[]>(() =>
+    [...new Set(savedDecks.value.map((d) => d.folder))]
+      .filter((f) => f !== "")
+      .sort((a, b) => a.localeCompare(b, "ja")),
+  );
+
+  const findDeckByName = (deckName: string): SavedDeck | undefined => {
     const name = deckName.trim();
-    const code = deckCode.trim();
-    if (!name || !code) return; // 早期リターン
-
-    const exists = savedDecks.value.some((d) => d.name === name);
-    savedDecks.value = exists
-      ? savedDecks.value.map((d) => (d.name === name ? { name, code } : d))
-      : [...savedDecks.value, { name, code }];
-    // useLocalStorage が自動保存
+    return savedDecks.value.find((d) => d.name === name);
   };
 
-  // デッキを削除する
-  const deleteDeck = (deckName: string) => {
-    savedDecks.value = savedDecks.value.filter(
-      (deck) => deck.name !== deckName,
+  const findDeckById = (id: string): SavedDeck | undefined =>
+    savedDecks.value.find((d) => d.id === id);
+
+  // デッキを保存する（同名のデッキがあれば更新）
+  const saveDeck = (input: SavedDeckInput): SavedDeck | null => {
+    const name = input.name.trim();
+    const code = input.code.trim();
+    if (!name || !code) return null; // 早期リターン
+
+    const now = new Date().toISOString();
+    const existing = findDeckByName(name);
+    const deck: SavedDeck = {
+      id: existing?.id ?? generateSavedDeckId(),
+      name,
+      code,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      notes: input.notes ?? existing?.notes ?? "",
+      tags: normalizeTags(input.tags ?? existing?.tags ?? []),
+      folder: (input.folder ?? existing?.folder ?? "").trim(),
+      format: input.format ?? existing?.format ?? DEFAULT_FORMAT_ID,
+      revisions: existing ? pushRevision(existing, code) : [],
+    };
+    savedDecks.value = existing
+      ? savedDecks.value.map((d) => (d.id === existing.id ? deck : d))
+      : [...savedDecks.value, deck];
+    // watch が自動保存
+    return deck;
+  };
+
+  // 保存デッキのメモ・タグ・フォルダを変更する（省略した項目は維持）
+  const updateDeckMetadata = (
+    id: string,
+    metadata: SavedDeckMetadataInput,
+  ): boolean => {
+    const deck = findDeckById(id);
+    if (!deck) return false;
+
+    const updated: SavedDeck = {
+      ...deck,
+      notes: metadata.notes ?? deck.notes,
+      tags: normalizeTags(metadata.tags ?? deck.tags),
+      folder: (metadata.folder ?? deck.folder).trim(),
+    };
+    savedDecks.value = savedDecks.value.map((d) => (d.id === id ? updated : d));
+    return true;
+  };
+
+  // 過去の版を現在の版として復元する（復元前の版は履歴に残す）
+  const restoreRevision = (deckId: string, revisionId: string): boolean => {
+    const deck = findDeckById(deckId);
+    const revision = deck?.revisions.find((r) => r.id === revisionId);
+    if (!deck || !revision) return false;
+
+    const restored: SavedDeck = {
+      ...deck,
+      code: revision.code,
+      updatedAt: new Date().toISOString(),
+      revisions: pushRevision(deck, revision.code),
+    };
+    savedDecks.value = savedDecks.value.map((d) =>
+      d.id === deckId ? restored : d,
     );
-    // useLocalStorage が自動保存
+    return true;
+  };
+
+  // 過去の版から新しいデッキを作成する（同名のデッキがある場合は作成しない）
+  const forkRevision = (
+    deckId: string,
+    revisionId: string,
+    newName: string,
+  ): SavedDeck | null => {
+    const deck = findDeckById(deckId);
+    const revision = deck?.revisions.find((r) => r.id === revisionId);
+    if (!deck || !revision || findDeckByName(newName)) return null;
+
+    return saveDeck({
+      name: newName,
+      code: revision.code,
+      notes: deck.notes,
+      tags: deck.tags,
+      folder: deck.folder,
+      format: deck.format,
+    });
+  };
+
+  // デッキを削除する
+  const deleteDeck = (id: string) => {
+    savedDecks.value = savedDecks.value.filter((deck) => deck.id !== id);
+    // watch が自動保存
+  };
+
+  // 保存デッキ一覧を置き換える（バックアップの復元など）
+  const replaceSavedDecks = (decks: readonly SavedDeck[]) => {
+    isLoaded = true; // 読み込みに失敗していても明示的な置き換えは保存する
+    savedDecks.value = [...decks];
+    // watch が自動保存
+  };
+
+  const setSearchQuery = (query: string) => {
+    searchQuery.value = query;
+  };
+
+  const setSortKey = (key: SavedDeckSortKey) => {
+    sortKey.value = key;
   };
 
   // デッキ管理モーダルを開く
   const openDeckManagementModal = () => {
-    // LocalStorageはリアクティブに同期
     deckCodeStore.generateDeckCodes(); // デッキコードを更新
     isDeckManagementModalOpen.value = true;
   };
@@ -80,8 +270,22 @@ export const useDeckManagementStore = defineStore("deckManagement", () => {
   return {
     isDeckManagementModalOpen,
     savedDecks,
+    searchQuery,
+    sortKey,
+    filteredDecks,
+    decksByFolder,
+    folders,
+    findDeckByName,
+    findDeckById,
+    loadSavedDecks,
     saveDeck,
+    updateDeckMetadata,
+    restoreRevision,
+    forkRevision,
     deleteDeck,
+    replaceSavedDecks,
+    setSearchQuery,
+    setSortKey,
     openDeckManagementModal,
     closeDeckManagementModal,
   };
@@ -1,6 +1,8 @@
 /**
  * エクスポートストアの仕様
  * 範囲: 画像読み込み待ち・タイムアウト・イベントクリーンアップの整合性保証。
+ * 統計セクション: includeStats 指定時のみ、カード一覧の下にデッキ統計（domain/deckStats）を描画する。
+ * QRコード: qrCodeText 指定時のみ、ヘッダ右上にデッキコードのQRコード（utils/qrCode）を描画する。
  */
 import { defineStore } from "pinia";
 import { ref, readonly } from "vue";
@@ -8,7 +10,11 @@ import {
   getCardImageUrl,
   getPlaceholderSrc,
   getNormalizedBaseUrl,
+  encodeQrCode,
 } from "../utils";
+import { ANALYSIS_DEFAULTS } from "../constants";
+import { calculateDeckStats } from "../domain";
+import type { DeckStats, StatEntry } from "../types";
 import { useDeckStore } from "./deck";
 
 // エクスポートストア専用のエラー型
@@ -48,6 +54,14 @@ export const useExportStore = defineStore("export", () => {
   const CARD_HEIGHT_LARGE = 452 as const; // 30種以下
   const CARDS_PER_ROW_SMALL = 15 as const; // 30種を超える場合
   const CARDS_PER_ROW_LARGE = 10 as const; // 30種以下
+  const STATS_SECTION_HEIGHT = 720 as const;
+  const STATS_ROW_HEIGHT = 64 as const;
+  const STATS_TAG_LIMIT = 8 as const;
+  const STATS_BACKGROUND = "#f3efdc" as const;
+  const STATS_BAR_COLOR = "#8a7f3a" as const;
+  const QR_BOX_SIZE = 264 as const; // quiet zone を含むQRコードの描画サイズ
+  const QR_BOX_TOP = 16 as const;
+  const QR_MARGIN_MODULES = 4 as const;
 
   const calculateCanvasHeight = (cardCount: number): number => {
     if (cardCount <= TWO_ROWS_THRESHOLD) return CANVAS_HEIGHT_TWO_ROWS;
@@ -108,10 +122,95 @@ export const useExportStore = defineStore("export", () => {
     }
   };
 
+  /**
+   * 統計セクションを描画（top から STATS_SECTION_HEIGHT の領域）
+   */
+  const drawStatsSection = (
+    ctx: CanvasRenderingContext2D,
+    stats: DeckStats,
+    top: number,
+  ): void => {
+    ctx.fillStyle = STATS_BACKGROUND;
+    ctx.fillRect(0, top, CANVAS_WIDTH, STATS_SECTION_HEIGHT);
+
+    const columns: readonly { title: string; entries: readonly StatEntry[] }[] =
+      [
+        { title: "種類", entries: [...stats.byKind, stats.entryCondition] },
+        { title: "色", entries: stats.byColor },
+        { title: "プレイタイプ", entries: stats.byPlayType },
+        { title: "タグ", entries: stats.topTags.slice(0, STATS_TAG_LIMIT) },
+      ];
+    const columnWidth = (CANVAS_WIDTH - CANVAS_PADDING_X * 2) / columns.length;
+    const labelWidth = columnWidth * 0.35;
+    const barMaxWidth = columnWidth * 0.35;
+
+    columns.forEach((column, ci) => {
+      const left = CANVAS_PADDING_X + columnWidth * ci;
+      ctx.fillStyle = "#353100";
+      ctx.textAlign = "left";
+      ctx.font = '700 48px "Shippori Mincho"';
+      ctx.fillText(column.title, left, top + 90);
+
+      ctx.font = '700 36px "Shippori Mincho"';
+      column.entries.forEach((entry, ri) => {
+        const y = top + 170 + ri * STATS_ROW_HEIGHT;
+        ctx.fillStyle = "#353100";
+        ctx.textAlign = "left";
+        ctx.fillText(entry.label, left, y, labelWidth - 16);
+        ctx.fillStyle = STATS_BAR_COLOR;
+        ctx.fillRect(
+          left + labelWidth,
+          y - 30,
+          barMaxWidth * Math.min(entry.ratio, 1),
+          32,
+        );
+        ctx.fillStyle = "#353100";
+        ctx.textAlign = "right";
+        ctx.fillText(`${entry.count}`, left + columnWidth - 32, y);
+      });
+    });
+  };
+
+  /**
+   * ヘッダ右上にQRコードを描画（白地の quiet zone を含む）
+   */
+  const drawQrCode = (ctx: CanvasRenderingContext2D, text: string): void => {
+    const qr = encodeQrCode(text);
+    const moduleSize = Math.floor(
+      QR_BOX_SIZE / (qr.size + QR_MARGIN_MODULES * 2),
+    );
+    const boxSize = moduleSize * (qr.size + QR_MARGIN_MODULES * 2);
+    const left = CANVAS_WIDTH - CANVAS_PADDING_X - boxSize;
+
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(left, QR_BOX_TOP, boxSize, boxSize);
+    ctx.fillStyle = "#000000";
+    const offset = QR_MARGIN_MODULES * moduleSize;
+    qr.modules.forEach((row, my) => {
+      row.forEach((dark, mx) => {
+        if (!dark) return;
+        ctx.fillRect(
+          left + offset + mx * moduleSize,
+          QR_BOX_TOP + offset + my * moduleSize,
+          moduleSize,
+          moduleSize,
+        );
+      });
+    });
+  };
+
   /**
    * デッキをPNG画像として保存
+   * @param options.includeStats true の場合、デッキ統計のセクションを追加する
+   * @param options.qrCodeText 指定時、その文字列（デッキコード）のQRコードを埋め込む
    */
-  const saveDeckAsPng = async (deckName: string): Promise<void> => {
+  const saveDeckAsPng = async (
+    deckName: string,
+    options: {
+      readonly includeStats?: boolean;
+      readonly qrCodeText?: string;
+    } = {},
+  ): Promise<void> => {
     if (isSaving.value) {
       throw new ExportError({
         type: "concurrency",
@@ -131,7 +230,9 @@ export const useExportStore = defineStore("export", () => {
       const canvas = document.createElement("canvas");
       const height = calculateCanvasHeight(distinctCount);
       canvas.width = CANVAS_WIDTH;
-      canvas.height = height;
+      canvas.height = options.includeStats
+        ? height + STATS_SECTION_HEIGHT
+        : height;
       const ctx = canvas.getContext("2d");
       if (!ctx) {
         throw new ExportError({
@@ -154,6 +255,10 @@ export const useExportStore = defineStore("export", () => {
         ctx.fillText(`「${deckName}」`, canvas.width / 2, 240);
       }
 
+      if (options.qrCodeText) {
+        drawQrCode(ctx, options.qrCodeText);
+      }
+
       // カード群描画
       const cardW = calculateCardWidth(distinctCount);
       const cardH = calculateCardHeight(distinctCount);
@@ -192,6 +297,14 @@ export const useExportStore = defineStore("export", () => {
         }
       }
 
+      if (options.includeStats) {
+        drawStatsSection(
+          ctx,
+          calculateDeckStats(deckCards, ANALYSIS_DEFAULTS.TOP_TAG_COUNT),
+          height,
+        );
+      }
+
       const canvasToBlob = (
         canvas: HTMLCanvasElement,
         type: string,
@@ -1,17 +1,28 @@
 /**
  * [spec] お気に入りカードの状態管理（Pinia）。
  * - 責務: お気に入りIDの永続化・参照・切替のみを提供（UIやフィルタは他層）。
- * - 設計: 関数型・最小API。副作用は useStorage に限定し分離。
+ * - 設計: 関数型・最小API。永続化は DeckRepository に委譲し、切替のたびに保存する。
+ * - 読み込み前の切替も保持し、読み込み完了時に既存のお気に入りと合算して保存する。
+ *   読み込み完了前は保存しない（読み込み前の一部の一覧で保存済みのお気に入りを上書きしない）。
+ * - タブ間同期: 保存後に他のタブへ通知し、受信側はそのまま反映する（再保存はしない）。
  */
 import { defineStore } from "pinia";
-import { computed, readonly } from "vue";
-import { useStorage } from "@vueuse/core";
-
-const FAVORITE_CARDS_STORAGE_KEY = "waic-deckbuilder-favorite-cards" as const;
+import { computed, readonly, ref } from "vue";
+import { getDeckRepository } from "../repositories";
+import { createTabSyncChannel } from "../utils";
 
 export const useFavoritesStore = defineStore("favorites", () => {
-  // お気に入りID配列を永続化
-  const favoriteIds = useStorage<string[]>(FAVORITE_CARDS_STORAGE_KEY, []);
+  const repository = getDeckRepository();
+  const favoriteIds = ref<string[]>([]);
+  let isLoaded = false;
+  // 読み込み前に切り替えられたかどうか（読み込み完了時に合算して保存する）
+  let hasPendingChanges = false;
+  const syncChannel = createTabSyncChannel<string[]>("favorites");
+
+  syncChannel.subscribe((ids) => {
+    if (!isLoaded) return; // 読み込み時に保存済みの一覧を取得する
+    favoriteIds.value = ids;
+  });
 
   // Set 形式の参照（検索を高速化）
   const favoriteIdSet = computed<ReadonlySet<string>>(
@@ -21,6 +32,47 @@ export const useFavoritesStore = defineStore("favorites", () => {
   const isFavorite = (cardId: string): boolean =>
     favoriteIdSet.value.has(cardId);
 
+  const persist = async (): Promise<void> => {
+    if (!isLoaded) {
+      hasPendingChanges = true;
+      return;
+    }
+    try {
+      await repository.saveFavoriteIds(favoriteIds.value);
+      syncChannel.post(favoriteIds.value);
+    } catch (e) {
+      console.error("お気に入りの保存に失敗しました", e);
+    }
+  };
+
+  /**
+   * 永続化されたお気に入りを読み込む
+   */
+  const loadFavorites = async (): Promise<void> => {
+    try {
+      const stored = await repository.loadFavoriteIds();
+      // 安定化のためIDでソート
+      favoriteIds.value = [
+        ...new Set([...stored, ...favoriteIds.value]),
+      ].sort();
+      isLoaded = true;
+      if (hasPendingChanges) {
+        hasPendingChanges = false;
+        await persist();
+      }
+    } catch (e) {
+      console.error("お気に入りの読み込みに失敗しました", e);
+    }
+  };
+
+  /**
+   * お気に入りを置き換える（バックアップの復元など）
+   */
+  const setFavoriteIds = (ids: readonly string[]): void => {
+    favoriteIds.value = [...new Set(ids)].sort();
+    void persist();
+  };
+
   const toggleFavorite = (cardId: string): void => {
     const next = new Set(favoriteIdSet.value);
     if (next.has(cardId)) {
@@ -30,12 +82,15 @@ export const useFavoritesStore = defineStore("favorites", () => {
     }
     // 安定化のためIDでソート
     favoriteIds.value = [...next].sort();
+    void persist();
   };
 
   return {
     favoriteIds: readonly(favoriteIds),
     favoriteIdSet,
     isFavorite,
+    loadFavorites,
+    setFavoriteIds,
     toggleFavorite,
   } as const;
 });
@@ -1,13 +1,42 @@
 /**
  * [spec] フィルタ条件の状態管理（Pinia）。カード一覧の抽出/並び替え/統計を提供するストア。
+ * - 一覧の母集合は選択中フォーマットのカードプール（DeckStore.activeFormat）。
+ * - テキスト検索は textScope（名前/効果/すべて）で対象を切り替え、一致箇所のスニペットも提供する。
+ * - テキストの一致判定は正規化・表記ゆれ許容の検索インデックス（CardsStore.searchIndex）を使い、
+ *   検索中の一覧は一致スコアの高い順に並べる。
+ * - 検索テキストはクエリ言語（domain/filterQuery）として解釈する。構文エラー時は queryError に保持し、
+ *   入力全体の部分一致検索にフォールバックする。解析は textQuery で1回だけ行い、絞り込み・ハイライト・
+ *   エラー表示で共有する。
  */
 import { defineStore } from "pinia";
 import { ref, readonly, computed, shallowRef, type ComputedRef } from "vue";
-import type { Card, CardKind, CardType, FilterCriteria } from "../types";
+import type {
+  Card,
+  CardKind,
+  CardType,
+  FilterCondition,
+  FilterCriteria,
+  FilterMatchMode,
+  HighlightSegment,
+  TextFilterCondition,
+  TextSearchScope,
+} from "../types";
+import { FilterQueryError } from "../types";
 import { CARD_KINDS, CARD_TYPES, PRIORITY_TAGS } from "../constants";
 import { useCardsStore } from "./cards";
-import { searchCardsByName, sortCards } from "../domain";
+import {
+  collectTextConditions,
+  DEFAULT_FILTER_CRITERIA,
+  filterCardsByCondition,
+  filterCardsByFormat,
+  findMatchSnippet,
+  parseFilterQuery,
+  scoreSearchText,
+  searchCards,
+  sortCards,
+} from "../domain";
 import { useFavoritesStore } from "./favorites";
+import { useDeckStore } from "./deck";
 
 export const useFilterStore = defineStore("filter", () => {
   // ストアの公開APIの型定義
@@ -24,9 +53,15 @@ export const useFilterStore = defineStore("filter", () => {
     updateFilterCriteria: typeof updateFilterCriteria;
     resetFilterCriteria: typeof resetFilterCriteria;
     setTextFilter: typeof setTextFilter;
+    setTextScope: typeof setTextScope;
+    getMatchSnippet: typeof getMatchSnippet;
+    queryError: typeof queryError;
+    highlightTerms: typeof highlightTerms;
     toggleKindFilter: typeof toggleKindFilter;
     toggleTypeFilter: typeof toggleTypeFilter;
     toggleTagFilter: typeof toggleTagFilter;
+    setTypeMatchMode: typeof setTypeMatchMode;
+    setTagMatchMode: typeof setTagMatchMode;
     toggleEntryConditionFilter: typeof toggleEntryConditionFilter;
     toggleOnlyFavoritesFilter: typeof toggleOnlyFavoritesFilter;
     isEmptyFilter: ComputedRef<boolean>;
@@ -34,14 +69,32 @@ export const useFilterStore = defineStore("filter", () => {
 
   const isFilterModalOpen = ref<boolean>(false);
   const filterCriteria = shallowRef<FilterCriteria>({
-    text: "",
-    kind: [],
-    type: [],
-    tags: [],
-    hasEntryCondition: false,
-    onlyFavorites: false,
+    ...DEFAULT_FILTER_CRITERIA,
   });
 
+  /**
+   * カードの持つ値が、選択した値に一致方法どおり一致するか
+   */
+  const matchesByMode = <T>(
+    cardValues: readonly T[],
+    selected: ReadonlySet<T>,
+    mode: FilterMatchMode,
+  ): boolean => {
+    switch (mode) {
+      case "any":
+        return cardValues.some((v) => selected.has(v));
+      case "all": {
+        const owned = new Set(cardValues);
+        for (const v of selected) {
+          if (!owned.has(v)) return false;
+        }
+        return true;
+      }
+      case "none":
+        return !cardValues.some((v) => selected.has(v));
+    }
+  };
+
   // シンプルなソート関数
   const sortCardsSimple = (cards: readonly Card[]) => {
     if (cards.length === 0) return cards;
@@ -54,6 +107,18 @@ export const useFilterStore = defineStore("filter", () => {
     return applyAllFiltersOptimized(cards, criteria);
   };
 
+  /**
+   * 選択中フォーマットのカードプール
+   */
+  const formatCards = computed<readonly Card[]>(() => {
+    const cardsStore = useCardsStore();
+    const deckStore = useDeckStore();
+    return filterCardsByFormat(
+      deckStore.activeFormat,
+      cardsStore.availableCards,
+    );
+  });
+
   // タグ抽出の最適化（Set操作を効率化）
   const extractTagsFromCards = (cards: readonly Card[]): Set<string> => {
     if (cards.length === 0) return new Set<string>();
@@ -106,17 +171,85 @@ export const useFilterStore = defineStore("filter", () => {
   });
 
   /**
-   * 最適化されたテキストフィルタリング
+   * 検索テキストをクエリとして解析（構文エラーは例外にせず error として返す）
+   */
+  const parseTextQuery = (
+    text: string,
+    scope: TextSearchScope,
+  ): {
+    condition: FilterCondition | null;
+    error: FilterQueryError | null;
+  } => {
+    try {
+      return { condition: parseFilterQuery(text, scope), error: null };
+    } catch (e) {
+      if (e instanceof FilterQueryError) return { condition: null, error: e };
+      throw e;
+    }
+  };
+
+  const textQuery = computed(() =>
+    parseTextQuery(filterCriteria.value.text, filterCriteria.value.textScope),
+  );
+
+  /**
+   * 検索クエリの構文エラー（検索ボックスへの表示用）
+   */
+  const queryError = computed(() => textQuery.value.error);
+
+  /**
+   * ハイライト対象の検索語（否定されていないテキスト条件）
+   */
+  const highlightTerms = computed<readonly TextFilterCondition[]>(() => {
+    const { condition, error } = textQuery.value;
+    if (condition) return collectTextConditions(condition);
+    const text = filterCriteria.value.text.trim();
+    if (!error || text.length === 0) return [];
+    return [
+      { type: "text", value: text, scope: filterCriteria.value.textScope },
+    ];
+  });
+
+  /**
+   * 最適化されたテキストフィルタリング（解析済みの textQuery を使い、queryError と結果を一致させる）
    */
   const applyTextFilter = (
     cards: readonly Card[],
     text: string,
+    scope: TextSearchScope,
   ): readonly Card[] => {
     if (!text || text.trim().length === 0) {
       return cards;
     }
 
-    return searchCardsByName(cards, text);
+    const { searchIndex } = useCardsStore();
+    const { condition } = textQuery.value;
+    if (!condition) return searchCards(cards, text, scope, searchIndex); // 構文エラー時
+    return filterCardsByCondition(cards, condition, searchIndex);
+  };
+
+  /**
+   * 検索語との一致スコアの高い順に並べ替え（同点は元の順序を維持）
+   */
+  const rankBySearchTerms = (
+    cards: readonly Card[],
+    terms: readonly TextFilterCondition[],
+  ): readonly Card[] => {
+    if (terms.length === 0 || cards.length < 2) return cards;
+    const { searchIndex } = useCardsStore();
+    const scores = new Map(
+      cards.map((card) => [
+        card.id,
+        terms.reduce(
+          (sum, term) =>
+            sum + scoreSearchText(card, term.value, term.scope, searchIndex),
+          0,
+        ),
+      ]),
+    );
+    return [...cards].sort(
+      (a, b) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0),
+    );
   };
 
   /**
@@ -149,6 +282,7 @@ export const useFilterStore = defineStore("filter", () => {
   const applyTypeFilter = (
     cards: readonly Card[],
     types: readonly CardType[],
+    mode: FilterMatchMode,
   ): readonly Card[] => {
     if (types.length === 0) {
       return cards;
@@ -158,7 +292,7 @@ export const useFilterStore = defineStore("filter", () => {
     const result: Card[] = [];
     for (const card of cards) {
       if (!card) continue;
-      if (card.type.some((t) => typeSet.has(t))) {
+      if (matchesByMode(card.type, typeSet, mode)) {
         result.push(card);
       }
     }
@@ -172,6 +306,7 @@ export const useFilterStore = defineStore("filter", () => {
   const applyTagFilter = (
     cards: readonly Card[],
     tags: readonly string[],
+    mode: FilterMatchMode,
   ): readonly Card[] => {
     if (tags.length === 0) {
       return cards;
@@ -180,8 +315,8 @@ export const useFilterStore = defineStore("filter", () => {
     const tagSet = new Set(tags);
     const result: Card[] = [];
     for (const card of cards) {
-      if (!card || !card.tags) continue;
-      if (card.tags.some((t) => tagSet.has(t))) {
+      if (!card) continue;
+      if (matchesByMode(card.tags ?? [], tagSet, mode)) {
         result.push(card);
       }
     }
@@ -220,12 +355,20 @@ export const useFilterStore = defineStore("filter", () => {
 
     // フィルターを選択性の高い順に適用（一般的に最も絞り込み効果が高いと思われる順）
     if (hasTextFilter) {
-      filteredCards = applyTextFilter(filteredCards, criteria.text);
+      filteredCards = applyTextFilter(
+        filteredCards,
+        criteria.text,
+        criteria.textScope,
+      );
       if (filteredCards.length === 0) return filteredCards; // 早期リターン
     }
 
     if (hasTagFilter) {
-      filteredCards = applyTagFilter(filteredCards, criteria.tags);
+      filteredCards = applyTagFilter(
+        filteredCards,
+        criteria.tags,
+        criteria.tagMatchMode,
+      );
       if (filteredCards.length === 0) return filteredCards; // 早期リターン
     }
 
@@ -235,7 +378,11 @@ export const useFilterStore = defineStore("filter", () => {
     }
 
     if (hasTypeFilter) {
-      filteredCards = applyTypeFilter(filteredCards, criteria.type);
+      filteredCards = applyTypeFilter(
+        filteredCards,
+        criteria.type,
+        criteria.typeMatchMode,
+      );
       if (filteredCards.length === 0) return filteredCards; // 早期リターン
     }
 
@@ -256,8 +403,7 @@ export const useFilterStore = defineStore("filter", () => {
    * ソート・フィルター済みカード一覧 - 最適化版（早期リターン強化）
    */
   const sortedAndFilteredCards = computed<readonly Card[]>(() => {
-    const cardsStore = useCardsStore();
-    const cards = cardsStore.availableCards;
+    const cards = formatCards.value;
 
     // 空の場合は早期リターン
     if (cards.length === 0) {
@@ -280,8 +426,10 @@ export const useFilterStore = defineStore("filter", () => {
       return readonly([]);
     }
 
-    // ソートの適用
-    return sortCardsSimple(result);
+    // ソートの適用（テキスト検索中は一致スコアの高い順を優先）
+    return readonly(
+      rankBySearchTerms(sortCardsSimple(result), highlightTerms.value),
+    );
   });
 
   /**
@@ -293,8 +441,7 @@ export const useFilterStore = defineStore("filter", () => {
     hasFilter: boolean;
     filterRate: number;
   }>(() => {
-    const cardsStore = useCardsStore();
-    const total = cardsStore.availableCards.length;
+    const total = formatCards.value.length;
     const filtered = sortedAndFilteredCards.value.length;
 
     return {
@@ -307,6 +454,7 @@ export const useFilterStore = defineStore("filter", () => {
 
   /**
    * フィルターが空かどうか判定 - 最適化版
+   * - 一致方法（typeMatchMode/tagMatchMode）は、値が選択されていなければ絞り込みに影響しない
    */
   const isEmptyFilter = (criteria: FilterCriteria): boolean => {
     if (criteria.text && criteria.text.trim().length > 0) return false;
@@ -343,14 +491,7 @@ export const useFilterStore = defineStore("filter", () => {
    * フィルター条件をリセット
    */
   const resetFilterCriteria = (): void => {
-    filterCriteria.value = {
-      text: "",
-      kind: [],
-      type: [],
-      tags: [],
-      hasEntryCondition: false,
-      onlyFavorites: false,
-    };
+    filterCriteria.value = { ...DEFAULT_FILTER_CRITERIA };
   };
 
   /**
@@ -363,6 +504,27 @@ export const useFilterStore = defineStore("filter", () => {
     };
   };
 
+  /**
+   * テキスト検索の対象範囲を設定
+   */
+  const setTextScope = (scope: TextSearchScope): void => {
+    filterCriteria.value = {
+      ...filterCriteria.value,
+      textScope: scope,
+    };
+  };
+
+  /**
+   * 現在のテキスト検索に一致した箇所のスニペット（ハイライト表示用）
+   */
+  const getMatchSnippet = (card: Card): readonly HighlightSegment[] | null => {
+    for (const term of highlightTerms.value) {
+      const snippet = findMatchSnippet(card, term.value, term.scope);
+      if (snippet) return snippet;
+    }
+    return null;
+  };
+
   /**
    * 種別フィルターを切り替え
    */
@@ -420,6 +582,26 @@ export const useFilterStore = defineStore("filter", () => {
     };
   };
 
+  /**
+   * タイプの一致方法を設定
+   */
+  const setTypeMatchMode = (mode: FilterMatchMode): void => {
+    filterCriteria.value = {
+      ...filterCriteria.value,
+      typeMatchMode: mode,
+    };
+  };
+
+  /**
+   * タグの一致方法を設定
+   */
+  const setTagMatchMode = (mode: FilterMatchMode): void => {
+    filterCriteria.value = {
+      ...filterCriteria.value,
+      tagMatchMode: mode,
+    };
+  };
+
   /**
    * 【登場条件】フィルターを切り替え
    */
@@ -444,6 +626,8 @@ export const useFilterStore = defineStore("filter", () => {
     allTags,
     sortedAndFilteredCards,
     filterStats,
+    queryError,
+    highlightTerms,
 
     // 定数
     allKinds: CARD_KINDS,
@@ -455,13 +639,17 @@ export const useFilterStore = defineStore("filter", () => {
     updateFilterCriteria,
     resetFilterCriteria,
     setTextFilter,
+    setTextScope,
     toggleKindFilter,
     toggleTypeFilter,
     toggleTagFilter,
+    setTypeMatchMode,
+    setTagMatchMode,
     toggleEntryConditionFilter, // 追加
     toggleOnlyFavoritesFilter,
 
     // ユーティリティ
+    getMatchSnippet,
     isEmptyFilter: computed(() => isEmptyFilter(filterCriteria.value)),
   } as FilterStore;
 });
@@ -0,0 +1,182 @@
+/**
+ * [spec] フィルター条件のプリセットと直近の検索条件の状態管理（Pinia）。
+ * - プリセット: 名前を付けて保存した条件。同名で保存すると条件を上書きする（id/createdAt は維持）
+ * - 直近の検索条件: フィルターモーダルを閉じた時点の条件を新しい順に MAX_RECENT_FILTERS 件まで保持する
+ *   （条件なし・直前と同じ条件は記録しない）
+ * - 適用は FilterStore.updateFilterCriteria に委譲する
+ * - 永続化: DeckRepository。読み込み完了前は保存しない（空一覧による上書きを防ぐ）
+ * - 共有: 現在の条件を #filter= 形式のURLとしてクリップボードにコピーする
+ */
+import { defineStore } from "pinia";
+import { readonly, ref, watch } from "vue";
+import { useClipboard } from "@vueuse/core";
+import type { FilterCriteria, FilterPreset } from "../types";
+import {
+  MAX_FILTER_PRESET_NAME_LENGTH,
+  MAX_RECENT_FILTERS,
+  isSameFilterCriteria,
+} from "../domain";
+import { getDeckRepository } from "../repositories";
+import { buildFilterShareUrl, generateSavedDeckId } from "../utils";
+import { useFilterStore } from "./filter";
+
+export const useFilterPresetsStore = defineStore("filterPresets", () => {
+  const repository = getDeckRepository();
+  const filterStore = useFilterStore();
+  const presets = ref<FilterPreset[]>([]);
+  const recentFilters = ref<FilterCriteria[]>([]);
+  let isLoaded = false;
+
+  const { copy: copyToClipboard, copied: shareUrlCopied } = useClipboard();
+
+  /**
+   * 永続化されたプリセットと直近の検索条件を読み込む
+   */
+  const loadFilterPresets = async (): Promise<void> => {
+    try {
+      const [storedPresets, storedRecent] = await Promise.all([
+        repository.loadFilterPresets(),
+        repository.loadRecentFilters(),
+      ]);
+      // 読み込み中にバックアップから復元された場合はそちらを優先する
+      if (isLoaded) return;
+      presets.value = [...storedPresets];
+      // 読み込み前に記録された条件を優先する
+      recentFilters.value = [
+        ...recentFilters.value,
+        ...storedRecent.filter(
+          (stored) =>
+            !recentFilters.value.some((c) => isSameFilterCriteria(c, stored)),
+        ),
+      ].slice(0, MAX_RECENT_FILTERS);
+      isLoaded = true;
+    } catch (e) {
+      console.error("フィルター条件のプリセットの読み込みに失敗しました", e);
+    }
+  };
+
+  watch(presets, (list) => {
+    if (!isLoaded) return;
+    repository.saveFilterPresets(list).catch((e: unknown) => {
+      console.error("フィルター条件のプリセットの保存に失敗しました", e);
+    });
+  });
+
+  watch(recentFilters, (list) => {
+    if (!isLoaded) return;
+    repository.saveRecentFilters(list).catch((e: unknown) => {
+      console.error("直近の検索条件の保存に失敗しました", e);
+    });
+  });
+
+  /**
+   * 現在のフィルター条件をプリセットとして保存
+   * @returns 名前が空の場合は false
+   */
+  const savePreset = (name: string): boolean => {
+    const trimmed = name.trim().slice(0, MAX_FILTER_PRESET_NAME_LENGTH);
+    if (!trimmed) return false;
+
+    const criteria = { ...filterStore.filterCriteria };
+    const existing = presets.value.find((p) => p.name === trimmed);
+    if (existing) {
+      presets.value = presets.value.map((p) =>
+        p.id === existing.id ? { ...p, criteria } : p,
+      );
+      return true;
+    }
+    presets.value = [
+      ...presets.value,
+      {
+        id: generateSavedDeckId(),
+        name: trimmed,
+        criteria,
+        createdAt: new Date().toISOString(),
+      },
+    ];
+    return true;
+  };
+
+  const deletePreset = (id: string): void => {
+    presets.value = presets.value.filter((p) => p.id !== id);
+  };
+
+  const applyPreset = (id: string): void => {
+    const preset = presets.value.find((p) => p.id === id);
+    if (!preset) return;
+    filterStore.updateFilterCriteria(preset.criteria);
+  };
+
+  const applyRecentFilter = (index: number): void => {
+    const criteria = recentFilters.value[index];
+    if (!criteria) return;
+    filterStore.updateFilterCriteria(criteria);
+  };
+
+  /**
+   * フィルター条件を直近の検索条件の先頭に記録
+   */
+  const recordRecentFilter = (criteria: FilterCriteria): void => {
+    const latest = recentFilters.value[0];
+    if (latest && isSameFilterCriteria(latest, criteria)) return;
+    recentFilters.value = [
+      { ...criteria },
+      ...recentFilters.value.filter((c) => !isSameFilterCriteria(c, criteria)),
+    ].slice(0, MAX_RECENT_FILTERS);
+  };
+
+  const clearRecentFilters = (): void => {
+    recentFilters.value = [];
+  };
+
+  /**
+   * プリセットと直近の検索条件を置き換える（バックアップからの復元用）
+   * 読み込み完了前でも復元した内容を保存する
+   */
+  const replaceFilterData = (
+    nextPresets: readonly FilterPreset[],
+    nextRecentFilters: readonly FilterCriteria[],
+  ): void => {
+    isLoaded = true;
+    presets.value = [...nextPresets];
+    recentFilters.value = nextRecentFilters.slice(0, MAX_RECENT_FILTERS);
+  };
+
+  // フィルターモーダルを閉じた時点の条件を記録する
+  watch(
+    () => filterStore.isFilterModalOpen,
+    (isOpen) => {
+      if (isOpen || filterStore.isEmptyFilter) return;
+      recordRecentFilter(filterStore.filterCriteria);
+    },
+  );
+
+  /**
+   * 現在のフィルター条件の共有URLをクリップボードにコピー
+   */
+  const copyFilterShareUrl = async (): Promise<void> => {
+    if (typeof window === "undefined") return;
+    try {
+      await copyToClipboard(
+        buildFilterShareUrl(window.location.origin, filterStore.filterCriteria),
+      );
+    } catch (e) {
+      console.error("共有URLのコピーに失敗しました", e);
+    }
+  };
+
+  return {
+    presets: readonly(presets),
+    recentFilters: readonly(recentFilters),
+    shareUrlCopied: readonly(shareUrlCopied),
+    loadFilterPresets,
+    savePreset,
+    deletePreset,
+    applyPreset,
+    applyRecentFilter,
+    recordRecentFilter,
+    clearRecentFilters,
+    replaceFilterData,
+    copyFilterShareUrl,
+  } as const;
+});
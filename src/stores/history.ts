@@ -0,0 +1,64 @@
+/**
+ * [spec] デッキ変更履歴の状態管理（Pinia）。元に戻す/やり直しのための操作ログを保持する。
+ * - 責務: 履歴エントリ（操作と変更前後のスナップショット）の記録と取り出しのみ。
+ *   デッキへの反映は DeckStore が行う（本ストアはデッキを参照しない）。
+ * - 履歴は最大 MAX_HISTORY_SIZE 件で、超過分は古いものから破棄する。
+ * - 新しい変更を記録するとやり直し履歴は破棄される。
+ */
+import { defineStore } from "pinia";
+import { computed, shallowRef } from "vue";
+import type { DeckHistoryEntry } from "../types";
+
+const MAX_HISTORY_SIZE = 100 as const;
+
+export const useDeckHistoryStore = defineStore("deckHistory", () => {
+  const undoStack = shallowRef<readonly DeckHistoryEntry[]>([]);
+  const redoStack = shallowRef<readonly DeckHistoryEntry[]>([]);
+
+  const canUndo = computed(() => undoStack.value.length > 0);
+  const canRedo = computed(() => redoStack.value.length > 0);
+
+  /**
+   * 変更を記録する
+   */
+  const record = (entry: DeckHistoryEntry): void => {
+    undoStack.value = [...undoStack.value, entry].slice(-MAX_HISTORY_SIZE);
+    redoStack.value = [];
+  };
+
+  /**
+   * 直近の変更を取り出し、やり直し履歴へ移す
+   */
+  const popUndo = (): DeckHistoryEntry | undefined => {
+    const entry = undoStack.value.at(-1);
+    if (!entry) return undefined;
+    undoStack.value = undoStack.value.slice(0, -1);
+    redoStack.value = [...redoStack.value, entry];
+    return entry;
+  };
+
+  /**
+   * 直近に元に戻した変更を取り出し、履歴へ戻す
+   */
+  const popRedo = (): DeckHistoryEntry | undefined => {
+    const entry = redoStack.value.at(-1);
+    if (!entry) return undefined;
+    redoStack.value = redoStack.value.slice(0, -1);
+    undoStack.value = [...undoStack.value, entry];
+    return entry;
+  };
+
+  const clear = (): void => {
+    undoStack.value = [];
+    redoStack.value = [];
+  };
+
+  return {
+    canUndo,
+    canRedo,
+    record,
+    popUndo,
+    popRedo,
+    clear,
+  } as const;
+});
@@ -6,3 +6,7 @@ export { useExportStore } from "./export";
 export { useAppStore } from "./app";
 export { useDeckManagementStore } from "./deckManagement";
 export { useFavoritesStore } from "./favorites";
+export { useRestrictionStore } from "./restriction";
+export { useDeckHistoryStore } from "./history";
+export { useBackupStore } from "./backup";
+export { useFilterPresetsStore } from "./filterPresets";
@@ -0,0 +1,46 @@
+/**
+ * [spec] 制限カードリストの状態管理（Pinia）。
+ * - 責務: 制限リストの読み込みと、カードごとの制限状態の参照のみを提供。
+ * - 最大枚数/検証ルールへの適用はフォーマットと合わせて DeckStore が行う。
+ * - 読み込み失敗は致命ではないため、空リスト（制限なし）として継続する。
+ */
+import { defineStore } from "pinia";
+import { computed, readonly, ref, shallowRef } from "vue";
+import type { RestrictionList, RestrictionStatus } from "../types";
+import { getNormalizedBaseUrl, loadRestrictionList } from "../utils";
+import { EMPTY_RESTRICTION_LIST, getRestrictionStatus } from "../domain";
+
+export const useRestrictionStore = defineStore("restriction", () => {
+  const restrictionList = shallowRef<RestrictionList>(EMPTY_RESTRICTION_LIST);
+  const isLoading = ref<boolean>(false);
+
+  /**
+   * 制限リストを読み込む
+   */
+  const loadRestrictions = async (): Promise<void> => {
+    if (isLoading.value) return; // 再入防止
+    isLoading.value = true;
+    try {
+      const normalized = getNormalizedBaseUrl();
+      restrictionList.value = await loadRestrictionList(
+        `${normalized}restriction-list.json`,
+      );
+    } catch (e) {
+      restrictionList.value = EMPTY_RESTRICTION_LIST;
+      console.warn("制限リストの読み込みに失敗しました", e);
+    } finally {
+      isLoading.value = false;
+    }
+  };
+
+  const getStatus = (cardId: string): RestrictionStatus =>
+    getRestrictionStatus(restrictionList.value, cardId);
+
+  return {
+    restrictionList: readonly(restrictionList),
+    version: computed(() => restrictionList.value.version),
+    isLoading: readonly(isLoading),
+    getStatus,
+    loadRestrictions,
+  };
+});
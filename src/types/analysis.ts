@@ -0,0 +1,97 @@
+import type { Card, CardKind, CardType } from "./card";
+
+/**
+ * デッキ分析で対象カードを指定する条件。
+ * 指定された条件はすべて満たす必要がある（AND）。未指定の条件は無視し、
+ * 何も指定しない場合はデッキの全カードが対象となる。
+ * @property cardId - 特定のカードID。
+ * @property kind - カードの種類。
+ * @property cardType - カードのタイプ（色やプレイタイプ）。
+ * @property tag - カードのタグ。
+ */
+export interface CardQuery {
+  readonly cardId?: string;
+  readonly kind?: CardKind;
+  readonly cardType?: CardType;
+  readonly tag?: string;
+}
+
+/**
+ * ドロー確率の計算結果。
+ * @property deckSize - デッキの合計枚数（母集団）。
+ * @property matchCount - 条件に一致するカードの枚数。
+ * @property draws - 引く枚数（デッキ枚数を上限に丸めた値）。
+ * @property atLeast - 必要な一致枚数の下限。
+ * @property probability - 一致するカードを atLeast 枚以上引く確率（0〜1）。
+ */
+export interface DrawProbability {
+  readonly deckSize: number;
+  readonly matchCount: number;
+  readonly draws: number;
+  readonly atLeast: number;
+  readonly probability: number;
+}
+
+/**
+ * 手札シミュレーターの状態。
+ * @property library - 山札（先頭から引く）。
+ * @property hand - 手札（引いた順）。
+ * @property mulligans - マリガンした回数。
+ */
+export interface SimulatorState {
+  readonly library: readonly Card[];
+  readonly hand: readonly Card[];
+  readonly mulligans: number;
+}
+
+/**
+ * 統計の1項目（枚数と割合）。
+ * @property label - 項目名（種類/色/タグ名など）。
+ * @property count - 該当するカードの枚数（同名カードの枚数を含む）。
+ * @property ratio - デッキ合計枚数に対する割合（0〜1）。
+ */
+export interface StatEntry {
+  readonly label: string;
+  readonly count: number;
+  readonly ratio: number;
+}
+
+/**
+ * デッキの統計情報。
+ * - 色・プレイタイプ・タグは1枚のカードが複数に該当しうるため、割合の合計は 1 を超えることがある。
+ * @property total - デッキの合計枚数。
+ * @property byKind - カード種類ごとの枚数。
+ * @property byColor - 色ごとの枚数。
+ * @property byPlayType - プレイタイプ（即時/装備/設置）ごとの枚数。
+ * @property topTags - 枚数の多いタグ（降順）。
+ * @property entryCondition - 【登場条件】を持つカードの枚数。
+ */
+export interface DeckStats {
+  readonly total: number;
+  readonly byKind: readonly StatEntry[];
+  readonly byColor: readonly StatEntry[];
+  readonly byPlayType: readonly StatEntry[];
+  readonly topTags: readonly StatEntry[];
+  readonly entryCondition: StatEntry;
+}
+
+/**
+ * デッキ内で生成・消費されるリソースの種類。
+ */
+export type ResourceKind = "魔力α" | "魔力β" | "魔力Ω" | "VOL";
+
+/**
+ * リソースごとの生成/消費バランス。枚数は同名カードの枚数を含む。
+ * @property resource - リソースの種類。
+ * @property producers - 生成（獲得）するカードの枚数。
+ * @property consumers - 消費するカードの枚数。
+ * @property referrers - 保有数を参照する（条件に用いる）カードの枚数。
+ * @property unsupported - 消費/参照するカードがあるのに生成するカードがない場合 true。
+ */
+export interface ResourceBalance {
+  readonly resource: ResourceKind;
+  readonly producers: number;
+  readonly consumers: number;
+  readonly referrers: number;
+  readonly unsupported: boolean;
+}
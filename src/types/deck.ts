@@ -2,7 +2,7 @@
  * spec: デッキ機能のドメイン型(ADT)と不変条件を定義するモジュール。
  * - UI文言は保持せず、構造化エラーで表現する。
  */
-import type { Card } from "./card";
+import type { Card, CardKind } from "./card";
 
 /**
  * デッキ内のカードとその枚数を表すインターフェース。
@@ -36,12 +36,47 @@ export type DeckState =
       readonly errors: readonly DeckOperationError[];
     };
 
-const getDeckOperationErrorMessage = (params: {
-  type: "CardNotFound" | "MaxCountExceeded" | "InvalidCardCount";
-  cardId: string;
+/**
+ * デッキ操作/デッキ検証で発生しうるエラー種別。
+ * - `CardNotFound`: 指定されたカードが見つからない。
+ * - `MaxCountExceeded`: カードの最大枚数制限を超過した。
+ * - `InvalidCardCount`: 不正なカード枚数が指定された。
+ * - `DeckSizeExceeded`: デッキの合計枚数が上限を超過した。
+ * - `DeckSizeInsufficient`: デッキの合計枚数が下限に満たない。
+ * - `KindCountOutOfRange`: 特定種別のカード枚数が要件の範囲外。
+ * - `BannedCard`: 禁止カードがデッキに含まれている。
+ * - `RestrictedCountExceeded`: 制限カードが制限枚数を超過している。
+ * - `NotInFormat`: 選択中のフォーマットで使用できないカードが含まれている。
+ */
+export type DeckOperationErrorType =
+  | "CardNotFound"
+  | "MaxCountExceeded"
+  | "InvalidCardCount"
+  | "DeckSizeExceeded"
+  | "DeckSizeInsufficient"
+  | "KindCountOutOfRange"
+  | "BannedCard"
+  | "RestrictedCountExceeded"
+  | "NotInFormat";
+
+/**
+ * DeckOperationError の生成パラメータ。
+ * - デッキ全体に対する違反（枚数/種別構成）は cardId を持たない。
+ * - cardIds は違反の原因となったカード群（UI のハイライト用）。
+ */
+export interface DeckOperationErrorParams {
+  type: DeckOperationErrorType;
+  cardId?: string;
+  cardIds?: readonly string[];
+  kind?: CardKind;
+  minCount?: number;
   maxCount?: number;
   count?: number;
-}): string => {
+}
+
+const getDeckOperationErrorMessage = (
+  params: DeckOperationErrorParams,
+): string => {
   switch (params.type) {
     case "CardNotFound":
       return `カードが見つかりません: ${params.cardId}`;
@@ -49,33 +84,52 @@ const getDeckOperationErrorMessage = (params: {
       return `最大枚数を超過しました: ${params.cardId} (最大: ${params.maxCount ?? "不明"})`;
     case "InvalidCardCount":
       return `不正なカード枚数です: ${params.cardId} (指定: ${params.count ?? "不明"})`;
+    case "DeckSizeExceeded":
+      return `デッキの枚数が上限を超えています: ${params.count ?? "不明"}枚 (最大: ${params.maxCount ?? "不明"})`;
+    case "DeckSizeInsufficient":
+      return `デッキの枚数が不足しています: ${params.count ?? "不明"}枚 (最小: ${params.minCount ?? "不明"})`;
+    case "KindCountOutOfRange":
+      return `${params.kind ?? "不明"}の枚数が条件を満たしていません: ${params.count ?? "不明"}枚 (${params.minCount ?? 0}〜${params.maxCount ?? "∞"})`;
+    case "BannedCard":
+      return `禁止カードが含まれています: ${params.cardId}`;
+    case "RestrictedCountExceeded":
+      return `制限カードの枚数を超過しています: ${params.cardId} (最大: ${params.maxCount ?? "不明"})`;
+    case "NotInFormat":
+      return `フォーマットで使用できないカードです: ${params.cardId}`;
     default:
       return `DeckOperationError: ${params.type} for card ${params.cardId}`;
   }
 };
 
 /**
- * デッキ操作中に発生しうるエラーを表す代数的データ型。
- * - `CardNotFound`: 指定されたカードが見つからない。
- * - `MaxCountExceeded`: カードの最大枚数制限を超過した。
- * - `InvalidCardCount`: 不正なカード枚数が指定された。
+ * デッキ操作中、またはデッキ検証で発生しうるエラーを表す代数的データ型。
+ * 種別は DeckOperationErrorType を参照。
  */
 export class DeckOperationError extends Error {
-  readonly type: "CardNotFound" | "MaxCountExceeded" | "InvalidCardCount";
-  readonly cardId: string;
+  readonly type: DeckOperationErrorType;
+  readonly cardId?: string;
+  readonly cardIds?: readonly string[];
+  readonly kind?: CardKind;
+  readonly minCount?: number;
   readonly maxCount?: number;
   readonly count?: number;
 
-  constructor(params: {
-    type: "CardNotFound" | "MaxCountExceeded" | "InvalidCardCount";
-    cardId: string;
-    maxCount?: number;
-    count?: number;
-  }) {
+  constructor(params: DeckOperationErrorParams) {
     super(getDeckOperationErrorMessage(params));
     this.name = "DeckOperationError";
     this.type = params.type;
-    this.cardId = params.cardId;
+    if (params.cardId !== undefined) {
+      this.cardId = params.cardId;
+    }
+    if (params.cardIds !== undefined) {
+      this.cardIds = params.cardIds;
+    }
+    if (params.kind !== undefined) {
+      this.kind = params.kind;
+    }
+    if (params.minCount !== undefined) {
+      this.minCount = params.minCount;
+    }
     if (params.maxCount !== undefined) {
       this.maxCount = params.maxCount;
     }
@@ -122,6 +176,64 @@ export class DeckCodeError extends Error {
   }
 }
 
+/**
+ * デッキコードのデコード結果。
+ * @property deckCards - 読み込めたカードとその枚数。
+ * @property missingCardIds - 形式は正しいがカード一覧に存在しないカードID。
+ * @property unmatchedLines - 解釈できなかった入力（行単位の形式のみ）。
+ * @property clampedCardIds - 枚数が上限を超えていたため上限に揃えたカードID（行単位の形式のみ）。
+ */
+export interface DeckCodeDecodeResult {
+  readonly deckCards: DeckCard[];
+  readonly missingCardIds: string[];
+  readonly unmatchedLines: string[];
+  readonly clampedCardIds: string[];
+}
+
+/**
+ * デッキコードのエンコードに渡す情報。
+ * @property deckCards - 並び替え済みのデッキカード。
+ * @property deckName - デッキ名。
+ * @property origin - 共有URLなどに使うオリジン（例: "https://example.com"）。
+ */
+export interface DeckCodeEncodeContext {
+  readonly deckCards: readonly DeckCard[];
+  readonly deckName: string;
+  readonly origin: string;
+}
+
+/**
+ * デッキコードの形式。形式の追加はレジストリへの登録のみで行う。
+ * 不変条件: `decode(encode(x))` は元のデッキを復元する。
+ * @property id - 形式の一意な識別子。
+ * @property label - 表示名。
+ * @property multiline - 複数行のテキストかどうか（表示方法の切り替えに使う）。
+ * @property detect - 入力がこの形式かどうかを判定する。
+ * @property encode - デッキをこの形式の文字列に変換する（失敗時は DeckCodeError）。
+ * @property decode - この形式の文字列をデッキに変換する（失敗時は DeckCodeError）。
+ */
+export interface DeckCodeFormat {
+  readonly id: string;
+  readonly label: string;
+  readonly multiline: boolean;
+  readonly detect: (code: string) => boolean;
+  readonly encode: (context: DeckCodeEncodeContext) => string;
+  readonly decode: (
+    code: string,
+    availableCards: readonly Card[],
+  ) => DeckCodeDecodeResult;
+}
+
+/**
+ * 生成済みのデッキコード（形式ごと）。
+ */
+export interface GeneratedDeckCode {
+  readonly formatId: string;
+  readonly label: string;
+  readonly multiline: boolean;
+  readonly value: string;
+}
+
 /**
  * デッキに対する変更操作を表す代数的データ型。
  * - `addCard`: カードをデッキに追加する。
@@ -142,3 +254,40 @@ export type DeckOperation =
       readonly count: number; // 0は対象カードの削除を意味する
     }
   | { readonly type: "clear" };
+
+/**
+ * 履歴に記録するデッキ変更の種類。
+ * - `DeckOperation`: 個別のデッキ操作。
+ * - `import`: デッキコードの読み込み等によるデッキ全体の置き換え。
+ * - `reset`: デッキのリセット。
+ */
+export type DeckHistoryAction =
+  | DeckOperation
+  | { readonly type: "import" }
+  | { readonly type: "reset" };
+
+/**
+ * デッキ変更履歴の1件。変更前後のスナップショットを保持する。
+ * 不変条件: `before` と `after` は変更時点のデッキを参照し、以後変更されない。
+ */
+export interface DeckHistoryEntry {
+  readonly action: DeckHistoryAction;
+  readonly before: readonly DeckCard[];
+  readonly after: readonly DeckCard[];
+}
+
+/**
+ * 2つのデッキの差分。各配列は compareCards の順に並ぶ。
+ * @property added - 比較先にのみ含まれるカード（枚数は比較先の枚数）。
+ * @property removed - 比較元にのみ含まれるカード（枚数は比較元の枚数）。
+ * @property changed - 両方に含まれ、枚数が異なるカード。
+ */
+export interface DeckDiff {
+  readonly added: readonly DeckCard[];
+  readonly removed: readonly DeckCard[];
+  readonly changed: readonly {
+    readonly card: Card;
+    readonly before: number;
+    readonly after: number;
+  }[];
+}
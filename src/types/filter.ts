@@ -1,37 +1,180 @@
 import type { CardKind, CardType } from "./card";
 
+/**
+ * 範囲指定できる数値フィールド。
+ * - `no`: カード番号（IDの末尾の数値）
+ * - `vol`: 効果テキスト中の「VOL+N」の最大値
+ */
+export type FilterRangeField = "no" | "vol";
+
 /**
  * フィルター条件を表す代数的データ型。
- * - `text`: テキスト検索条件。
+ * - `text`: テキスト検索条件（scope で対象範囲を指定）。
  * - `kind`: カードの種類によるフィルタリング条件。
  * - `cardType`: カードのタイプ（色や属性）によるフィルタリング条件。
  * - `tags`: タグによるフィルタリング条件。
- * - `combined`: 複数のフィルター条件を組み合わせたもの。
+ * - `range`: 数値フィールドの範囲条件（min/max は両端を含む）。
+ * - `combined`: 全ての条件を満たす（AND）。
+ * - `any`: いずれかの条件を満たす（OR）。
+ * - `not`: 条件を満たさない。
  */
 export type FilterCondition =
-  | { readonly type: "text"; readonly value: string }
+  | {
+      readonly type: "text";
+      readonly value: string;
+      readonly scope: TextSearchScope;
+    }
   | { readonly type: "kind"; readonly values: readonly CardKind[] }
   | { readonly type: "cardType"; readonly values: readonly CardType[] }
   | { readonly type: "tags"; readonly values: readonly string[] }
+  | {
+      readonly type: "range";
+      readonly field: FilterRangeField;
+      readonly min?: number;
+      readonly max?: number;
+    }
   | {
       readonly type: "combined";
       readonly conditions: readonly FilterCondition[];
-    };
+    }
+  | {
+      readonly type: "any";
+      readonly conditions: readonly FilterCondition[];
+    }
+  | { readonly type: "not"; readonly condition: FilterCondition };
+
+export type TextFilterCondition = Extract<FilterCondition, { type: "text" }>;
+
+/**
+ * 名前を付けて保存したフィルター条件。
+ * @property createdAt - 作成日時（ISO 8601）。
+ */
+export interface FilterPreset {
+  readonly id: string;
+  readonly name: string;
+  readonly criteria: FilterCriteria;
+  readonly createdAt: string;
+}
+
+/**
+ * 検索クエリの構文エラーの種別。
+ * - `UnexpectedToken`: その位置に置けない記号・演算子
+ * - `UnclosedParen`: 閉じられていない括弧
+ * - `UnclosedQuote`: 閉じられていない引用符
+ * - `MissingOperand`: 値・被演算子がない（`kind:` や末尾の `OR` など）
+ * - `UnknownField`: 未知のフィールド名
+ * - `InvalidValue`: フィールドに指定できない値
+ */
+export type FilterQueryErrorType =
+  | "UnexpectedToken"
+  | "UnclosedParen"
+  | "UnclosedQuote"
+  | "MissingOperand"
+  | "UnknownField"
+  | "InvalidValue";
+
+/**
+ * FilterQueryError の生成パラメータ。
+ * - start/end はクエリ文字列中の位置（UI でのエラー箇所表示用、end は含まない）。
+ */
+export interface FilterQueryErrorParams {
+  type: FilterQueryErrorType;
+  start: number;
+  end: number;
+  token?: string;
+  field?: string;
+}
+
+const getFilterQueryErrorMessage = (params: FilterQueryErrorParams): string => {
+  switch (params.type) {
+    case "UnexpectedToken":
+      return `ここには置けない記号です: ${params.token ?? ""}`;
+    case "UnclosedParen":
+      return "括弧が閉じられていません";
+    case "UnclosedQuote":
+      return '引用符（"）が閉じられていません';
+    case "MissingOperand":
+      return `値がありません: ${params.token ?? ""}`;
+    case "UnknownField":
+      return `未知のフィールドです: ${params.field ?? ""}`;
+    case "InvalidValue":
+      return `${params.field ?? ""} に指定できない値です: ${params.token ?? ""}`;
+    default:
+      return `FilterQueryError: ${params.type}`;
+  }
+};
+
+/**
+ * 検索クエリの構文エラーを表す構造化エラー。
+ */
+export class FilterQueryError extends Error {
+  readonly type: FilterQueryErrorType;
+  readonly start: number;
+  readonly end: number;
+  readonly token?: string;
+  readonly field?: string;
+
+  constructor(params: FilterQueryErrorParams) {
+    super(getFilterQueryErrorMessage(params));
+    this.name = "FilterQueryError";
+    this.type = params.type;
+    this.start = params.start;
+    this.end = params.end;
+    if (params.token !== undefined) {
+      this.token = params.token;
+    }
+    if (params.field !== undefined) {
+      this.field = params.field;
+    }
+    Object.setPrototypeOf(this, FilterQueryError.prototype);
+  }
+}
+
+/**
+ * テキスト検索の対象範囲。
+ * - `name`: カード名・ID
+ * - `effect`: 効果テキスト
+ * - `all`: カード名・ID・効果テキスト
+ */
+export type TextSearchScope = "name" | "effect" | "all";
+
+/**
+ * 検索語のハイライト表示用に分割したテキスト片。
+ * @property matched - 検索語に一致した部分かどうか。
+ */
+export interface HighlightSegment {
+  readonly text: string;
+  readonly matched: boolean;
+}
+
+/**
+ * 複数選択したタイプ/タグの一致方法。
+ * - `any`: いずれかを持つ（OR）
+ * - `all`: すべてを持つ（AND）
+ * - `none`: いずれも持たない（除外）
+ */
+export type FilterMatchMode = "any" | "all" | "none";
 
 /**
  * 適用されるフィルターの基準を表すインターフェース。
  * @property text - カード名や効果テキストに対する自由なテキスト検索文字列。
+ * @property textScope - テキスト検索の対象範囲。
  * @property kind - フィルタリング対象のカードの種類（例: "Artist", "Song"）。
  * @property type - フィルタリング対象のカードタイプ（例: "赤", "即時"）。
+ * @property typeMatchMode - 選択したタイプの一致方法。
  * @property tags - フィルタリング対象のタグ。
+ * @property tagMatchMode - 選択したタグの一致方法。
  * @property hasEntryCondition - 【登場条件】を持つカードで絞り込むかどうかのフラグ。
  * @property onlyFavorites - お気に入りのカードで絞り込むかどうかのフラグ。
  */
 export interface FilterCriteria {
   readonly text: string;
+  readonly textScope: TextSearchScope;
   readonly kind: readonly CardKind[];
   readonly type: readonly CardType[];
+  readonly typeMatchMode: FilterMatchMode;
   readonly tags: readonly string[];
+  readonly tagMatchMode: FilterMatchMode;
   readonly hasEntryCondition: boolean;
   readonly onlyFavorites: boolean;
 }
@@ -0,0 +1,40 @@
+import type { CardKind } from "./card";
+
+/**
+ * プレイフォーマットの識別子。
+ * - standard: スタンダード（ex/prm を除く通常カードのみ）
+ * - extra: エクストラ（全カード使用可）
+ * - casual: カジュアル（枚数下限・制限リストなし）
+ */
+export type FormatId = "standard" | "extra" | "casual";
+
+/**
+ * フォーマットで使用可能なカードプール。
+ * - all: 全カード
+ * - excludeExPrm: ex/prm で始まるIDのカードを除く
+ */
+export type FormatCardPool = "all" | "excludeExPrm";
+
+/**
+ * プレイフォーマットを表すインターフェース。
+ * @property id - フォーマットの識別子。
+ * @property name - 表示名。
+ * @property deckSize - デッキ合計枚数の下限/上限（両端を含む）。
+ * @property maxCopies - 同名カードの最大枚数。
+ * @property cardPool - 使用可能なカードプール。
+ * @property useRestrictionList - 制限カードリストを適用するかどうか。
+ * @property kindRequirements - 種別ごとの枚数要件。
+ */
+export interface Format {
+  readonly id: FormatId;
+  readonly name: string;
+  readonly deckSize: { readonly min: number; readonly max: number };
+  readonly maxCopies: number;
+  readonly cardPool: FormatCardPool;
+  readonly useRestrictionList: boolean;
+  readonly kindRequirements: readonly {
+    readonly kind: CardKind;
+    readonly min?: number;
+    readonly max?: number;
+  }[];
+}
@@ -1,3 +1,7 @@
 export * from "./card";
 export * from "./deck";
 export * from "./filter";
+export * from "./restriction";
+export * from "./format";
+export * from "./analysis";
+export * from "./savedDeck";
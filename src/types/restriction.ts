@@ -0,0 +1,20 @@
+/**
+ * 制限カード（禁止・制限）リストを表すインターフェース。
+ * @property version - リストの版（公式発表日など）。
+ * @property limits - カードID → デッキに入れられる最大枚数（0 は禁止）。
+ */
+export interface RestrictionList {
+  readonly version: string;
+  readonly limits: ReadonlyMap<string, number>;
+}
+
+/**
+ * カード単体の制限状態を表す代数的データ型。
+ * - `none`: 制限なし。
+ * - `banned`: 禁止カード。
+ * - `limited`: 制限カード。最大枚数を含む。
+ */
+export type RestrictionStatus =
+  | { readonly type: "none" }
+  | { readonly type: "banned" }
+  | { readonly type: "limited"; readonly maxCount: number };
@@ -0,0 +1,58 @@
+import type { FormatId } from "./format";
+
+/**
+ * 保存デッキの過去の版。
+ * @property id - 版の一意な識別子。
+ * @property savedAt - この版が保存された日時（ISO 8601）。
+ * @property code - この版のデッキコード。
+ */
+export interface SavedDeckRevision {
+  readonly id: string;
+  readonly savedAt: string;
+  readonly code: string;
+}
+
+/**
+ * 保存済みデッキ。
+ * 不変条件: `id` は保存デッキ間で一意。`name` も一意（同名保存は上書き確認の対象）。
+ * @property id - 一意な識別子。
+ * @property name - デッキ名。
+ * @property code - デッキコード（KCG形式、旧データはスラッシュ区切りの場合がある）。
+ * @property createdAt - 作成日時（ISO 8601）。
+ * @property updatedAt - 最終更新日時（ISO 8601）。
+ * @property notes - 自由記述のメモ。
+ * @property tags - ユーザーが付けたタグ。
+ * @property folder - フォルダ名（空文字は未分類）。
+ * @property format - 保存時のプレイフォーマット。
+ * @property revisions - 過去の版（新しい順、件数上限あり）。現在の版は含まない。
+ */
+export interface SavedDeck {
+  readonly id: string;
+  readonly name: string;
+  readonly code: string;
+  readonly createdAt: string;
+  readonly updatedAt: string;
+  readonly notes: string;
+  readonly tags: readonly string[];
+  readonly folder: string;
+  readonly format: FormatId;
+  readonly revisions: readonly SavedDeckRevision[];
+}
+
+/**
+ * 保存デッキとして入力される内容（id と日時は保存時に付与される）。
+ */
+export type SavedDeckInput = Pick<SavedDeck, "name" | "code"> &
+  Partial<Pick<SavedDeck, "notes" | "tags" | "folder" | "format">>;
+
+/**
+ * 保存デッキの付加情報（メモ・タグ・フォルダ）の編集内容。省略した項目は変更しない。
+ */
+export type SavedDeckMetadataInput = Partial<
+  Pick<SavedDeck, "notes" | "tags" | "folder">
+>;
+
+/**
+ * 保存デッキ一覧の並び順。
+ */
+export type SavedDeckSortKey = "updatedAt" | "createdAt" | "name";
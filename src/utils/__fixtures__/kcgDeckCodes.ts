@@ -0,0 +1,41 @@
+/**
+ * KCG形式デッキコードの回帰検出用サンプル。
+ *
+ * - code は encodeKcgDeckCode の出力を固定したもの。公式デッキメーカーの発行コードではないため、
+ *   公式との互換性ではなく、コーデックの変更で既存のコードが読めなくなることを検出する
+ * - cardIds はデコード結果（コード内の並び順）
+ */
+export interface KcgDeckCodeFixture {
+  readonly description: string;
+  readonly code: string;
+  readonly cardIds: readonly string[];
+}
+
+export const KCG_DECK_CODE_REGRESSION_FIXTURES: readonly KcgDeckCodeFixture[] =
+  [
+    {
+      description: "1枚のみ",
+      code: "KCG-rDLXC",
+      cardIds: ["AA-1"],
+    },
+    {
+      description: "同一カード4枚",
+      code: "KCG-rDLPE",
+      cardIds: ["AA-1", "AA-1", "AA-1", "AA-1"],
+    },
+    {
+      description: "全カード種別と番号の上下限",
+      code: "KCG-lDLzmNDpcuc8B",
+      cardIds: ["AA-1", "AA-1", "AS-3", "AM-10", "AD-50", "AD-50"],
+    },
+    {
+      description: "ex / prm エキスパンション",
+      code: "KCG-jzN8gVPtrA",
+      cardIds: ["exA-1", "exA-1", "prmS-2", "prmA-12", "prmA-12", "prmA-12"],
+    },
+    {
+      description: "10番目以降のエキスパンション（J〜R）",
+      code: "KCG-l1T4mdmgQT3rC",
+      cardIds: ["RA-7", "JS-1", "IA-49", "HM-3", "HM-3"],
+    },
+  ];
@@ -0,0 +1,127 @@
+/**
+ * コンパクト形式（WDC2）デッキコードのテスト（版・枚数・CRC-32 の検証と形式判定）。
+ */
+import { describe, expect, it } from "vitest";
+import { GAME_CONSTANTS } from "../constants";
+import { DeckCodeError } from "../types";
+import {
+  crc32Hex,
+  decodeCompactDeckCode,
+  encodeCompactDeckCode,
+} from "./compactDeckCode";
+import { detectDeckCodeFormat } from "./deckCodeFormats";
+
+const copies = (id: string, count: number): string[] =>
+  Array.from({ length: count }, () => id);
+
+// 上限枚数（4枚）× 15種類 = 最大デッキ枚数（60枚）
+const MAX_DECK = Array.from(
+  { length: GAME_CONSTANTS.MAX_DECK_SIZE / GAME_CONSTANTS.MAX_CARD_COPIES },
+  (_, i) => copies(`AA-${i + 1}`, GAME_CONSTANTS.MAX_CARD_COPIES),
+).flat();
+
+const withPayload = (payload: string, version = 2): string =>
+  `WDC${version}-${payload}-${crc32Hex(payload)}`;
+
+const expectValidationError = (code: string, message?: RegExp) => {
+  try {
+    decodeCompactDeckCode(code);
+  } catch (e) {
+    expect(e).toBeInstanceOf(DeckCodeError);
+    expect((e as DeckCodeError).type).toBe("validation");
+    if (message) expect((e as DeckCodeError).message).toMatch(message);
+    return;
+  }
+  expect.fail(`DeckCodeError(validation) が送出されませんでした: ${code}`);
+};
+
+describe("crc32Hex", () => {
+  it("IEEE 802.3 の CRC-32 を16進8桁で返す", () => {
+    expect(crc32Hex("")).toBe("00000000");
+    expect(crc32Hex("123456789")).toBe("CBF43926");
+  });
+});
+
+describe("encodeCompactDeckCode / decodeCompactDeckCode", () => {
+  it("版・枚数・チェックサムを付けてエンコードする", () => {
+    const code = encodeCompactDeckCode([
+      ...copies("AA-1", 4),
+      ...copies("AS-3", 2),
+      "exA-10",
+    ]);
+    expect(code).toBe(withPayload("AA1x4.AS3x2.exA10"));
+  });
+
+  it.each([
+    ["1枚のみ", ["AA-1"]],
+    ["ex / prm エキスパンション", ["exA-1", "prmS-2", "prmS-2", "RD-50"]],
+    ["上限枚数で最大デッキ枚数", MAX_DECK],
+  ])("%s を往復で復元する", (_, cardIds) => {
+    expect(decodeCompactDeckCode(encodeCompactDeckCode(cardIds))).toEqual(
+      cardIds,
+    );
+  });
+
+  it("前後の空白は無視する", () => {
+    expect(decodeCompactDeckCode(` ${withPayload("AA1x2")}\n`)).toEqual([
+      "AA-1",
+      "AA-1",
+    ]);
+  });
+
+  describe("不正な入力", () => {
+    const valid = encodeCompactDeckCode([...copies("AA-1", 4), "AS-3"]);
+
+    it("ペイロードの1文字を変えるとチェックサムで拒否する", () => {
+      const corrupted = valid.replace("AA1x4", "AA2x4");
+      expect(corrupted).not.toBe(valid);
+      expectValidationError(corrupted, /チェックサム/);
+    });
+
+    it("チェックサムの1文字を変えると拒否する", () => {
+      const last = valid.at(-1) === "0" ? "1" : "0";
+      expectValidationError(`${valid.slice(0, -1)}${last}`, /チェックサム/);
+    });
+
+    it("未知の版は拒否する", () => {
+      expectValidationError(withPayload("AA1x4", 3), /v3/);
+      expectValidationError(withPayload("AA1x4", 1), /v1/);
+    });
+
+    it("切り詰められたコードは拒否する", () => {
+      expectValidationError(valid.slice(0, -1));
+      expectValidationError(valid.replace(".AS3", ""), /チェックサム/);
+      expectValidationError("WDC2-");
+      expectValidationError("WDC2");
+    });
+
+    it.each([
+      ["上限を超える枚数", "AA1x5", /上限（4枚）/],
+      ["同じカードの合計が上限を超える", "AA1x3.AA1x2", /上限（4枚）/],
+      [
+        "合計が最大デッキ枚数を超える",
+        Array.from({ length: 16 }, (_, i) => `AA${i + 1}x4`).join("."),
+        /合計枚数/,
+      ],
+      ["3桁の枚数", "AA1x100", /不正な要素/],
+      ["0枚", "AA1x0", /不正な要素/],
+      ["不正なカードID", "AX1", /不正な要素/],
+    ])("%s は拒否する", (_, payload, message) => {
+      expectValidationError(withPayload(payload), message);
+    });
+  });
+});
+
+describe("deckCodeFormats での判定", () => {
+  it.each([
+    [encodeCompactDeckCode(["AA-1"]), "compact"],
+    [withPayload("AA1", 3), "compact"],
+    ["KCG-rDLXC", "kcg"],
+    ["AA-1/AA-1", "slash"],
+    ["AA-1", "slash"],
+    ["WDC", null],
+    ["WDCカード 2", null],
+  ])("%j は %s", (code, formatId) => {
+    expect(detectDeckCodeFormat(code)?.id ?? null).toBe(formatId);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * コンパクト形式（v2）デッキコードのエンコード・デコード機能を提供するモジュール
+ *
+ * 形式: `WDC<版>-<ペイロード>-<CRC-32>`
+ * - 版: 現在は "2" のみ。未知の版は validation エラー
+ * - ペイロード: (カードID, 枚数) を "." で連結。カードIDの "-" は省き、2枚以上は "x枚数" を付ける
+ *   例: `AA1x4.AB3x2.exA10`（AA-1×4, AB-3×2, exA-10×1）
+ * - CRC-32: ペイロードの CRC-32 を16進8桁（大文字）で付与し、破損・誤記を検出する
+ * デコード結果はカードID配列（1枚ごとに1要素）で、toDeckCardsFromCardIds で DeckCard に変換する。
+ * 破損したコードは部分的なデッキとして読み込まず、必ず DeckCodeError（validation）とする。
+ * 枚数は展開前に検証する（1種類あたり MAX_CARD_COPIES、合計 MAX_DECK_SIZE まで）。
+ */
+import { GAME_CONSTANTS } from "../constants";
+import { DeckCodeError } from "../types";
+import { CARD_ID_REGEX } from "../domain";
+
+export const COMPACT_DECK_CODE_PREFIX = "WDC" as const;
+export const COMPACT_DECK_CODE_VERSION = 2 as const;
+
+const ENTRY_SEPARATOR = "." as const;
+const COMPACT_CODE_REGEX = /^WDC(\d+)-([^-]+)-([0-9A-F]{8})$/;
+// 形式の判定用（版は問わない。未知の版はデコード時にエラーとして報告する）
+const COMPACT_CODE_HEAD_REGEX = /^WDC\d+-/;
+const COMPACT_ENTRY_REGEX = /^([A-Z]|ex|prm)([ASMD])(\d+)(?:x(\d{1,2}))?$/;
+
+// CRC-32（IEEE 802.3, 多項式 0xEDB88320）のテーブル
+const CRC32_TABLE: readonly number[] = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * 文字列（UTF-8）の CRC-32 を16進8桁（大文字）で返す
+ */
+export const crc32Hex = (text: string): string => {
+  let crc = 0xffffffff;
+  for (const byte of new TextEncoder().encode(text)) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  }
+  return ((crc ^ 0xffffffff) >>> 0).toString(16).toUpperCase().padStart(8, "0");
+};
+
+const validationError = (message: string, invalidId?: string) =>
+  new DeckCodeError({
+    type: "validation",
+    message,
+    ...(invalidId !== undefined ? { invalidId } : {}),
+  });
+
+/**
+ * コンパクト形式のデッキコードらしい入力か（"WDC<版>-" で始まる）
+ */
+export const isCompactDeckCode = (code: string): boolean =>
+  COMPACT_CODE_HEAD_REGEX.test(code);
+
+/**
+ * コンパクト形式（v2）のデッキコードをエンコード
+ * @param cardIds カードIDの配列（1枚ごとに1要素。順序は初出順で保持）
+ */
+export const encodeCompactDeckCode = (cardIds: readonly string[]): string => {
+  const counts = new Map<string, number>();
+  for (const id of cardIds) {
+    if (!CARD_ID_REGEX.test(id)) {
+      throw new DeckCodeError({
+        type: "generation",
+        message: `不正なカードID形式です: ${id}`,
+        invalidId: id,
+      });
+    }
+    counts.set(id, (counts.get(id) ?? 0) + 1);
+  }
+  if (counts.size === 0) {
+    throw new DeckCodeError({
+      type: "generation",
+      message: "デッキが空です",
+    });
+  }
+
+  const payload = [...counts]
+    .map(([id, count]) => {
+      const compactId = id.replace("-", "");
+      return count === 1 ? compactId : `${compactId}x${count}`;
+    })
+    .join(ENTRY_SEPARATOR);
+  return `${COMPACT_DECK_CODE_PREFIX}${COMPACT_DECK_CODE_VERSION}-${payload}-${crc32Hex(payload)}`;
+};
+
+/**
+ * コンパクト形式（v2）のデッキコードをデコード
+ * @returns カードIDの配列（1枚ごとに1要素）
+ * @throws DeckCodeError 形式・版・チェックサムが不正な場合（validation）
+ */
+export const decodeCompactDeckCode = (code: string): string[] => {
+  const match = COMPACT_CODE_REGEX.exec(code.trim());
+  if (!match) {
+    throw validationError(
+      `コンパクト形式のデッキコードは"${COMPACT_DECK_CODE_PREFIX}${COMPACT_DECK_CODE_VERSION}-"で始まり、末尾にチェックサムが必要です`,
+    );
+  }
+  const [, version = "", payload = "", checksum = ""] = match;
+
+  if (Number(version) !== COMPACT_DECK_CODE_VERSION) {
+    throw validationError(`未対応のデッキコードの版です: v${version}`);
+  }
+  if (crc32Hex(payload) !== checksum) {
+    throw validationError(
+      "デッキコードのチェックサムが一致しません。コードが破損しているか、入力に誤りがあります",
+    );
+  }
+
+  // 枚数を検証してから展開する（巨大な枚数による過剰なメモリ確保を防ぐ）
+  const counts = new Map<string, number>();
+  let total = 0;
+  for (const entry of payload.split(ENTRY_SEPARATOR)) {
+    const parsed = COMPACT_ENTRY_REGEX.exec(entry);
+    const count = Number(parsed?.[4] ?? "1");
+    if (!parsed || !Number.isInteger(count) || count < 1) {
+      throw validationError(`デッキコードに不正な要素があります: ${entry}`);
+    }
+    const id = `${parsed[1]}${parsed[2]}-${Number(parsed[3])}`;
+    const next = (counts.get(id) ?? 0) + count;
+    if (next > GAME_CONSTANTS.MAX_CARD_COPIES) {
+      throw validationError(
+        `デッキコードの枚数が上限（${GAME_CONSTANTS.MAX_CARD_COPIES}枚）を超えています: ${id}`,
+        id,
+      );
+    }
+    total += count;
+    if (total > GAME_CONSTANTS.MAX_DECK_SIZE) {
+      throw validationError(
+        `デッキコードの合計枚数が上限（${GAME_CONSTANTS.MAX_DECK_SIZE}枚）を超えています`,
+      );
+    }
+    counts.set(id, next);
+  }
+  return [...counts].flatMap(([id, count]) =>
+    Array.from({ length: count }, () => id),
+  );
+};
@@ -0,0 +1,58 @@
+/**
+ * 取り消し・即時実行が可能なデバウンスのテスト。
+ */
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createDebouncedFn } from "./debounce";
+
+describe("createDebouncedFn", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("最後の呼び出しから wait 後に1回だけ実行する", () => {
+    const fn = vi.fn();
+    const debounced = createDebouncedFn(fn, 500);
+    debounced();
+    vi.advanceTimersByTime(300);
+    debounced();
+    vi.advanceTimersByTime(499);
+    expect(fn).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("呼び出しが続いても maxWait 以内に実行する", () => {
+    const fn = vi.fn();
+    const debounced = createDebouncedFn(fn, 500, { maxWait: 1000 });
+    for (let i = 0; i < 5; i++) {
+      debounced();
+      vi.advanceTimersByTime(300);
+    }
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancel で保留中の実行を破棄する", () => {
+    const fn = vi.fn();
+    const debounced = createDebouncedFn(fn, 500);
+    debounced();
+    debounced.cancel();
+    expect(debounced.isPending()).toBe(false);
+    vi.advanceTimersByTime(1000);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("flush で保留中の実行を即座に行い、保留がなければ何もしない", () => {
+    const fn = vi.fn();
+    const debounced = createDebouncedFn(fn, 500);
+    debounced.flush();
+    expect(fn).not.toHaveBeenCalled();
+    debounced();
+    debounced.flush();
+    expect(fn).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(1000);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
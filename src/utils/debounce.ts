@@ -0,0 +1,57 @@
+/**
+ * @file 取り消し・即時実行が可能なデバウンス。
+ *
+ * - 最後の呼び出しから wait ミリ秒後に1回だけ実行する
+ * - maxWait を指定すると、呼び出しが続いても最初の呼び出しから maxWait ミリ秒以内に実行する
+ * - cancel で保留中の実行を破棄し、flush で保留中の実行を即座に行う（保留がなければ何もしない）
+ */
+
+export interface DebouncedFn {
+  (): void;
+  /** 保留中の実行を破棄 */
+  cancel(): void;
+  /** 保留中の実行を即座に行う */
+  flush(): void;
+  /** 実行が保留中かどうか */
+  isPending(): boolean;
+}
+
+export const createDebouncedFn = (
+  fn: () => void,
+  wait: number,
+  options: { readonly maxWait?: number } = {},
+): DebouncedFn => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // 保留中の最初の呼び出し時刻（maxWait の起点）
+  let firstCalledAt: number | null = null;
+
+  const cancel = (): void => {
+    if (timer !== null) clearTimeout(timer);
+    timer = null;
+    firstCalledAt = null;
+  };
+
+  const run = (): void => {
+    cancel();
+    fn();
+  };
+
+  const schedule = (): void => {
+    const now = Date.now();
+    firstCalledAt ??= now;
+    if (timer !== null) clearTimeout(timer);
+    const delay =
+      options.maxWait === undefined
+        ? wait
+        : Math.min(wait, Math.max(0, firstCalledAt + options.maxWait - now));
+    timer = setTimeout(run, delay);
+  };
+
+  return Object.assign(schedule, {
+    cancel,
+    flush: (): void => {
+      if (timer !== null) run();
+    },
+    isPending: (): boolean => timer !== null,
+  });
+};
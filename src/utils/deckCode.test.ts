@@ -0,0 +1,97 @@
+/**
+ * KCG形式デッキコードの適合性テスト。
+ * - 回帰検出用の固定サンプル（公式の発行コードではない）のデコード結果
+ * - card-data.csv の全カードを対象にしたシード付きランダムデッキの往復（encode → decode）
+ * - 不正な入力に対する DeckCodeError の種別
+ */
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { createSeededRng, type Rng } from "../domain";
+import { DeckCodeError } from "../types";
+import { decodeKcgDeckCode, encodeKcgDeckCode } from "./deckCode";
+import { KCG_DECK_CODE_REGRESSION_FIXTURES } from "./__fixtures__/kcgDeckCodes";
+
+const RANDOM_DECK_COUNT = 500;
+const RANDOM_SEED = 20240601;
+
+const loadCardIds = (): readonly string[] =>
+  readFileSync(new URL("../../public/card-data.csv", import.meta.url), "utf8")
+    .split(/\r?\n/)
+    .slice(1)
+    .map((line) => line.slice(0, line.indexOf(",")))
+    .filter((id) => id.length > 0);
+
+const randomDeck = (cardIds: readonly string[], random: Rng): string[] => {
+  const kinds = 1 + Math.floor(random() * 20);
+  const picked = new Set<string>();
+  while (picked.size < kinds) {
+    picked.add(cardIds[Math.floor(random() * cardIds.length)]!);
+  }
+  return [...picked].flatMap((id) =>
+    Array.from({ length: 1 + Math.floor(random() * 4) }, () => id),
+  );
+};
+
+const sorted = (ids: readonly string[]): string[] => [...ids].sort();
+
+const expectDeckCodeError = (code: string, type: DeckCodeError["type"]) => {
+  try {
+    decodeKcgDeckCode(code);
+  } catch (e) {
+    expect(e).toBeInstanceOf(DeckCodeError);
+    expect((e as DeckCodeError).type).toBe(type);
+    return;
+  }
+  expect.fail(`DeckCodeError(${type}) が送出されませんでした: ${code}`);
+};
+
+describe("decodeKcgDeckCode", () => {
+  it.each(KCG_DECK_CODE_REGRESSION_FIXTURES)(
+    "$description",
+    ({ code, cardIds }) => {
+      expect(decodeKcgDeckCode(code)).toEqual(cardIds);
+    },
+  );
+
+  it.each(KCG_DECK_CODE_REGRESSION_FIXTURES)(
+    "$description を同じコードにエンコードする",
+    ({ code, cardIds }) => {
+      expect(encodeKcgDeckCode(cardIds)).toBe(code);
+    },
+  );
+
+  it("card-data.csv のカードによるランダムなデッキを往復で復元する", () => {
+    const cardIds = loadCardIds();
+    expect(cardIds.length).toBeGreaterThan(0);
+    const random = createSeededRng(RANDOM_SEED);
+    for (let i = 0; i < RANDOM_DECK_COUNT; i++) {
+      const deck = randomDeck(cardIds, random);
+      const code = encodeKcgDeckCode(deck);
+      expect(sorted(decodeKcgDeckCode(code)), code).toEqual(sorted(deck));
+    }
+  });
+
+  it("すべてのカードを4枚ずつ往復で復元する", () => {
+    for (const id of loadCardIds()) {
+      const deck = [id, id, id, id];
+      expect(decodeKcgDeckCode(encodeKcgDeckCode(deck))).toEqual(deck);
+    }
+  });
+
+  describe("不正な入力", () => {
+    it.each(["", "KCG", "kcg-rDLXC", "KGC-rDLXC", " KCG-rDLXC", "rDLXC"])(
+      "接頭辞が不正: %j",
+      (code) => expectDeckCodeError(code, "validation"),
+    );
+
+    it.each(["KCG-rDL#C", "KCG-rDL XC", "KCG-rDLXC=", "KCG-ｒDLXC"])(
+      "文字マップ外の文字を含む: %j",
+      (code) => expectDeckCodeError(code, "validation"),
+    );
+
+    it.each(["KCG-", "KCG-r", "KCG-rD", "KCG-l", "KCG-lD"])(
+      "ペイロードが切り詰められている: %j",
+      (code) => expectDeckCodeError(code, "validation"),
+    );
+  });
+});
@@ -4,6 +4,7 @@
  * 対応形式:
  * - スラッシュ区切り形式: カードIDを"/"で連結した形式
  * - KCG形式: "KCG-"で始まる圧縮形式のデッキコード
+ * 形式の判別と一覧は deckCodeFormats.ts のレジストリが担う
  */
 import type { Card, DeckCard } from "../types";
 import { DeckCodeError } from "../types";
@@ -95,7 +96,13 @@ export const decodeDeckCode = (
  * KCG形式のデッキコードをデコード
  * @param deckCode KCG-から始まるデッキコード文字列
  * @returns デコードされたカードIDの配列
+ * @throws DeckCodeError（validation）
+ *   - "KCG-" で始まらない／ペイロードが空
+ *   - 文字マップ外の文字を含む
+ *   - パディング除去後、1枚分（10ビット）に満たない
+ * @throws DeckCodeError（decode）上記以外の予期しない失敗
  * @note 無効なカードデータ（範囲外のインデックスや値）は警告なくスキップされます
+ * @note encodeKcgDeckCode の出力は、カードIDの並び順を除いて元の配列に復元される
  */
 export const decodeKcgDeckCode = (deckCode: string): string[] => {
   try {
@@ -162,6 +169,13 @@ export const decodeKcgDeckCode = (deckCode: string): string[] => {
     } else if (charsToRemoveFromPayloadEnd > 0) {
       processedBinaryPayload = "";
     }
+    // 空のデッキはエンコードできないため、1枚分に満たないものは破損とみなす
+    if (processedBinaryPayload.length < 10) {
+      throw new DeckCodeError({
+        type: "validation",
+        message: "デッキコードのペイロードが短すぎます",
+      });
+    }
 
     // --- 5. バイナリを数値文字列に変換 ---
     let intermediateString = "";
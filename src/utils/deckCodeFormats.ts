@@ -0,0 +1,151 @@
+/**
+ * デッキコード形式のレジストリ
+ *
+ * - 形式ごとに判定（detect）・エンコード（encode）・デコード（decode）を持つ
+ * - 判定はレジストリの順に行い、最初に一致した形式を採用する
+ *   （KCG → コンパクト → 共有URL → テキスト → スラッシュ区切り。カード名に "/" を含みうるためテキストを先に判定）
+ * - 新しい形式は DECK_CODE_FORMATS に追加するだけで生成・表示・インポートの対象になる
+ */
+import type {
+  Card,
+  DeckCodeDecodeResult,
+  DeckCodeFormat,
+  DeckCard,
+} from "../types";
+import { DeckCodeError } from "../types";
+import { CARD_ID_REGEX } from "../domain";
+import {
+  decodeDeckCode,
+  decodeKcgDeckCode,
+  encodeKcgDeckCode,
+  toDeckCardsFromCardIds,
+} from "./deckCode";
+import {
+  decodeCompactDeckCode,
+  encodeCompactDeckCode,
+  isCompactDeckCode,
+} from "./compactDeckCode";
+import { decodeDeckList, encodeDeckList, isDeckListText } from "./deckList";
+import { buildDeckShareUrl, parseDeckShareHash } from "./shareUrl";
+
+const KCG_PREFIX = "KCG-" as const;
+
+const toCardIds = (deckCards: readonly DeckCard[]): string[] =>
+  deckCards.flatMap((dc) => Array<string>(dc.count).fill(dc.card.id));
+
+const withoutUnmatched = (result: {
+  deckCards: DeckCard[];
+  missingCardIds: string[];
+}): DeckCodeDecodeResult => ({
+  ...result,
+  unmatchedLines: [],
+  clampedCardIds: [],
+});
+
+const decodeKcg = (
+  code: string,
+  availableCards: readonly Card[],
+): DeckCodeDecodeResult =>
+  withoutUnmatched(
+    toDeckCardsFromCardIds(decodeKcgDeckCode(code), availableCards),
+  );
+
+export const kcgDeckCodeFormat: DeckCodeFormat = {
+  id: "kcg",
+  label: "KCG形式デッキコード",
+  multiline: false,
+  detect: (code) => code.startsWith(KCG_PREFIX),
+  encode: ({ deckCards }) => encodeKcgDeckCode(toCardIds(deckCards)),
+  decode: decodeKcg,
+};
+
+export const compactDeckCodeFormat: DeckCodeFormat = {
+  id: "compact",
+  label: "コンパクト形式デッキコード（チェックサム付き）",
+  multiline: false,
+  detect: isCompactDeckCode,
+  encode: ({ deckCards }) => encodeCompactDeckCode(toCardIds(deckCards)),
+  decode: (code, availableCards) =>
+    withoutUnmatched(
+      toDeckCardsFromCardIds(decodeCompactDeckCode(code), availableCards),
+    ),
+};
+
+export const shareUrlDeckCodeFormat: DeckCodeFormat = {
+  id: "share",
+  label: "共有URL",
+  multiline: false,
+  detect: (code) => /^https?:\/\/\S+#\S*deck=/.test(code),
+  encode: (context) =>
+    buildDeckShareUrl(
+      context.origin,
+      kcgDeckCodeFormat.encode(context),
+      context.deckName,
+    ),
+  decode: (code, availableCards) => {
+    const shared = parseDeckShareHash(code.slice(code.indexOf("#")));
+    if (!shared) {
+      throw new DeckCodeError({
+        type: "validation",
+        message: "共有URLにデッキが含まれていません",
+      });
+    }
+    return decodeKcg(shared.code, availableCards);
+  },
+};
+
+export const textDeckCodeFormat: DeckCodeFormat = {
+  id: "text",
+  label: "テキスト形式デッキリスト",
+  multiline: true,
+  detect: isDeckListText,
+  encode: ({ deckCards }) => encodeDeckList(deckCards),
+  decode: decodeDeckList,
+};
+
+export const slashDeckCodeFormat: DeckCodeFormat = {
+  id: "slash",
+  label: "スラッシュ区切りデッキコード",
+  multiline: false,
+  // 1枚だけのデッキは "/" を含まない
+  detect: (code) => code.includes("/") || CARD_ID_REGEX.test(code),
+  encode: ({ deckCards }) => toCardIds(deckCards).join("/"),
+  decode: (code, availableCards) =>
+    withoutUnmatched(decodeDeckCode(code, availableCards)),
+};
+
+/**
+ * 登録済みのデッキコード形式（判定の優先順）
+ */
+export const DECK_CODE_FORMATS: readonly DeckCodeFormat[] = [
+  kcgDeckCodeFormat,
+  compactDeckCodeFormat,
+  shareUrlDeckCodeFormat,
+  textDeckCodeFormat,
+  slashDeckCodeFormat,
+];
+
+/**
+ * 入力の形式を判定（該当なしは null）
+ */
+export const detectDeckCodeFormat = (code: string): DeckCodeFormat | null =>
+  DECK_CODE_FORMATS.find((f) => f.detect(code.trim())) ?? null;
+
+/**
+ * 形式を自動判別してデッキコードをデコード
+ * @throws DeckCodeError 形式が不明または不正な場合
+ */
+export const decodeAnyDeckCode = (
+  code: string,
+  availableCards: readonly Card[],
+): DeckCodeDecodeResult => {
+  const trimmed = code.trim();
+  const format = detectDeckCodeFormat(trimmed);
+  if (!format) {
+    throw new DeckCodeError({
+      type: "validation",
+      message: "サポートされていないデッキコード形式です",
+    });
+  }
+  return format.decode(trimmed, availableCards);
+};
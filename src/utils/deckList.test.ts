@@ -0,0 +1,31 @@
+/**
+ * テキスト形式のデッキリストのデコードテスト（枚数の上限）。
+ */
+import { describe, expect, it } from "vitest";
+import type { Card } from "../types";
+import { decodeDeckList } from "./deckList";
+
+const CARDS: readonly Card[] = [
+  { id: "AA-1", name: "【花魁鳥】花譜", kind: "Artist", type: ["赤"] },
+  { id: "AA-2", name: "【花魁鳥】理芽", kind: "Artist", type: ["青"] },
+];
+
+describe("decodeDeckList", () => {
+  it("上限以内の枚数はそのまま読み込む", () => {
+    const result = decodeDeckList("4 AA-1\n2 AA-2", CARDS);
+    expect(result.deckCards.map((dc) => [dc.card.id, dc.count])).toEqual([
+      ["AA-1", 4],
+      ["AA-2", 2],
+    ]);
+    expect(result.clampedCardIds).toEqual([]);
+  });
+
+  it("上限を超える枚数は上限に揃えて記録する", () => {
+    const result = decodeDeckList("99 AA-1\n3 AA-2\n2 AA-2", CARDS);
+    expect(result.deckCards.map((dc) => [dc.card.id, dc.count])).toEqual([
+      ["AA-1", 4],
+      ["AA-2", 4],
+    ]);
+    expect(result.clampedCardIds).toEqual(["AA-1", "AA-2"]);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * テキスト形式のデッキリストのパース・出力を提供するモジュール
+ *
+ * 形式（1行1種類）:
+ * - 枚数 + カードID（後続のカード名は無視）: `4 AA-1 【花魁鳥】花譜`
+ * - 枚数 + カード名: `4x 【花魁鳥】花譜` / `4 【花魁鳥】花譜`
+ * - 空行と `#` / `//` で始まる行は無視する
+ * カード名は表記ゆれ（全角/半角・空白・大文字小文字・カタカナ/ひらがな・記号）を
+ * domain の normalizeSearchKey で正規化して照合し、
+ * 一致しない場合は部分一致・編集距離で一意に定まるカードを採用する。
+ * 解釈できない行は unmatchedLines、存在しないカードIDは missingCardIds に集約する。
+ * 同じカードの合計枚数が MAX_CARD_COPIES を超える場合は上限に揃え、clampedCardIds に記録する。
+ */
+import { GAME_CONSTANTS } from "../constants";
+import type { Card, DeckCard } from "../types";
+import { CARD_ID_REGEX, normalizeSearchKey } from "../domain";
+
+// 枚数 + 区切り（空白、または空白/非ASCII文字が続く x・×）+ 残り
+// 例: "4 AA-1", "4x 花譜", "4×花譜"（"4 xyz" の x はカード名の一部として扱う）
+const DECK_LIST_LINE_REGEX =
+  /^(\d{1,2})\s*(?:[xX×✕](?=\s|[^ -~])|\s)\s*(\S.*)$/;
+const COMMENT_LINE_REGEX = /^(#|\/\/)/;
+
+// 編集距離（レーベンシュタイン距離）
+const editDistance = (a: string, b: string): number => {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j]! + 1, curr[j - 1]! + 1, prev[j - 1]! + cost);
+    }
+    prev = curr;
+  }
+  return prev[b.length]!;
+};
+
+// 候補が1件に定まる場合のみ採用
+const pickUnique = (candidates: readonly Card[]): Card | undefined =>
+  candidates.length === 1 ? candidates[0] : undefined;
+
+/**
+ * カード名からカードを曖昧検索（一意に定まらなければ undefined）
+ */
+export const findCardByName = (
+  name: string,
+  availableCards: readonly Card[],
+): Card | undefined => {
+  const query = normalizeSearchKey(name);
+  if (!query) return undefined;
+  const normalized = availableCards.map(
+    (card) => [card, normalizeSearchKey(card.name)] as const,
+  );
+
+  const exact = pickUnique(
+    normalized.filter(([, n]) => n === query).map(([c]) => c),
+  );
+  if (exact) return exact;
+
+  const partial = pickUnique(
+    normalized.filter(([, n]) => n.includes(query)).map(([c]) => c),
+  );
+  if (partial) return partial;
+
+  // 名前の長さの 3 割までの誤記を許容し、最も近い候補が一意なら採用
+  const threshold = Math.max(1, Math.floor(query.length * 0.3));
+  let best: Card[] = [];
+  let bestDistance = threshold + 1;
+  for (const [card, n] of normalized) {
+    const d = editDistance(query, n);
+    if (d < bestDistance) {
+      best = [card];
+      bestDistance = d;
+    } else if (d === bestDistance) {
+      best.push(card);
+    }
+  }
+  return pickUnique(best);
+};
+
+const isIgnorableLine = (line: string): boolean =>
+  line === "" || COMMENT_LINE_REGEX.test(line);
+
+/**
+ * テキストがデッキリスト形式かどうか（有効な行がすべて「枚数 + 内容」）
+ */
+export const isDeckListText = (text: string): boolean => {
+  const lines = text
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter((l) => !isIgnorableLine(l));
+  return lines.length > 0 && lines.every((l) => DECK_LIST_LINE_REGEX.test(l));
+};
+
+/**
+ * テキスト形式のデッキリストをデコード
+ */
+export const decodeDeckList = (
+  text: string,
+  availableCards: readonly Card[],
+): {
+  deckCards: DeckCard[];
+  missingCardIds: string[];
+  unmatchedLines: string[];
+  clampedCardIds: string[];
+} => {
+  const cardsById = new Map(availableCards.map((c) => [c.id, c] as const));
+  const counts = new Map<Card, number>();
+  const missingCardIds: string[] = [];
+  const unmatchedLines: string[] = [];
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (isIgnorableLine(line)) continue;
+
+    const match = DECK_LIST_LINE_REGEX.exec(line);
+    const count = match ? Number(match[1]) : 0;
+    const rest = match?.[2]?.trim() ?? "";
+    if (count < 1 || !rest) {
+      unmatchedLines.push(line);
+      continue;
+    }
+
+    const [firstToken = ""] = rest.split(/\s+/);
+    const idToken = firstToken.normalize("NFKC");
+    if (CARD_ID_REGEX.test(idToken)) {
+      const card = cardsById.get(idToken);
+      if (card) counts.set(card, (counts.get(card) ?? 0) + count);
+      else if (!missingCardIds.includes(idToken)) missingCardIds.push(idToken);
+      continue;
+    }
+
+    const card = findCardByName(rest, availableCards);
+    if (card) counts.set(card, (counts.get(card) ?? 0) + count);
+    else unmatchedLines.push(line);
+  }
+
+  const deckCards = [...counts].map(([card, count]) => ({
+    card,
+    count: Math.min(count, GAME_CONSTANTS.MAX_CARD_COPIES),
+  }));
+  const clampedCardIds = [...counts]
+    .filter(([, count]) => count > GAME_CONSTANTS.MAX_CARD_COPIES)
+    .map(([card]) => card.id);
+  return { deckCards, missingCardIds, unmatchedLines, clampedCardIds };
+};
+
+/**
+ * デッキをテキスト形式のデッキリストに変換（並び順は引数の順）
+ */
+export const encodeDeckList = (deckCards: readonly DeckCard[]): string =>
+  deckCards.map((dc) => `${dc.count} ${dc.card.id} ${dc.card.name}`).join("\n");
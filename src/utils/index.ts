@@ -1,4 +1,14 @@
 export * from "./cardDataConverter";
 export * from "./deckCode";
+export * from "./compactDeckCode";
+export * from "./deckList";
+export * from "./deckCodeFormats";
 export * from "./image";
 export * from "./storage";
+export * from "./restrictionListLoader";
+export * from "./shareUrl";
+export * from "./savedDeckStorage";
+export * from "./tabSync";
+export * from "./qrCode";
+export * from "./qrCodeReader";
+export * from "./debounce";
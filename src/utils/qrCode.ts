@@ -0,0 +1,420 @@
+/**
+ * QRコードのエンコード機能を提供するモジュール（外部ライブラリ・通信なし）
+ *
+ * - JIS X 0510 / ISO/IEC 18004 準拠。バイトモード（UTF-8）のみ対応
+ * - 誤り訂正レベルを指定し、データが収まる最小の型番（1〜40）を選ぶ
+ * - マスクは8種類のうち失点（連続・2x2ブロック・明暗比）が最小のものを採用
+ * - 描画は呼び出し側（SVG パス/Canvas）に委ね、ここではモジュール行列のみを返す
+ */
+import { DeckCodeError } from "../types";
+
+export type QrErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+
+/**
+ * QRコードのモジュール行列（true が暗モジュール）。quiet zone は含まない。
+ */
+export interface QrCode {
+  readonly size: number;
+  readonly modules: readonly (readonly boolean[])[];
+}
+
+const MIN_VERSION = 1 as const;
+const MAX_VERSION = 40 as const;
+
+const ECL_ORDINAL: Readonly<Record<QrErrorCorrectionLevel, number>> = {
+  L: 0,
+  M: 1,
+  Q: 2,
+  H: 3,
+};
+const ECL_FORMAT_BITS: Readonly<Record<QrErrorCorrectionLevel, number>> = {
+  L: 1,
+  M: 0,
+  Q: 3,
+  H: 2,
+};
+
+// 型番ごとのブロックあたり誤り訂正コード語数 [ECL][型番]
+// prettier-ignore
+const ECC_CODEWORDS_PER_BLOCK: readonly (readonly number[])[] = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+
+// 型番ごとの誤り訂正ブロック数 [ECL][型番]
+// prettier-ignore
+const NUM_ERROR_CORRECTION_BLOCKS: readonly (readonly number[])[] = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+const getBit = (x: number, i: number): boolean => ((x >>> i) & 1) !== 0;
+
+// 機能パターンを除いたデータ領域のモジュール数
+const getNumRawDataModules = (ver: number): number => {
+  let result = (16 * ver + 128) * ver + 64;
+  if (ver >= 2) {
+    const numAlign = Math.floor(ver / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (ver >= 7) result -= 36;
+  }
+  return result;
+};
+
+const getNumDataCodewords = (ver: number, ecl: number): number =>
+  Math.floor(getNumRawDataModules(ver) / 8) -
+  ECC_CODEWORDS_PER_BLOCK[ecl]![ver]! * NUM_ERROR_CORRECTION_BLOCKS[ecl]![ver]!;
+
+// バイトモードの文字数指示子のビット数
+const charCountBits = (ver: number): number => (ver <= 9 ? 8 : 16);
+
+// --- Reed-Solomon（GF(2^8), 原始多項式 0x11D） ---
+const gfMultiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonDivisor = (degree: number): number[] => {
+  const result = Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j]!, root);
+      if (j + 1 < result.length) result[j]! ^= result[j + 1]!;
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const reedSolomonRemainder = (
+  data: readonly number[],
+  divisor: readonly number[],
+): number[] => {
+  const result = divisor.map(() => 0);
+  for (const b of data) {
+    const factor = b ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coef, i) => {
+      result[i]! ^= gfMultiply(coef, factor);
+    });
+  }
+  return result;
+};
+
+// データコード語をブロックに分割し、誤り訂正コード語を付けてインターリーブ
+const addEccAndInterleave = (
+  data: readonly number[],
+  ver: number,
+  ecl: number,
+): number[] => {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[ecl]![ver]!;
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[ecl]![ver]!;
+  const rawCodewords = Math.floor(getNumRawDataModules(ver) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+
+  const divisor = reedSolomonDivisor(blockEccLen);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(
+      k,
+      k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1),
+    );
+    k += dat.length;
+    const ecc = reedSolomonRemainder(dat, divisor);
+    if (i < numShortBlocks) dat.push(0);
+    blocks.push([...dat, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0]!.length; i++) {
+    blocks.forEach((block, j) => {
+      // 短いブロックの埋め草は出力しない
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) {
+        result.push(block[i]!);
+      }
+    });
+  }
+  return result;
+};
+
+// データビット列を作成（モード指示子・文字数・データ・終端・埋め草）
+const buildDataCodewords = (
+  bytes: Uint8Array,
+  ver: number,
+  ecl: number,
+): number[] => {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0x4, 4); // バイトモード
+  append(bytes.length, charCountBits(ver));
+  for (const b of bytes) append(b, 8);
+
+  const capacityBits = getNumDataCodewords(ver, ecl) * 8;
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((acc, b) => (acc << 1) | b, 0));
+  }
+  return codewords;
+};
+
+const getAlignmentPatternPositions = (ver: number): number[] => {
+  if (ver === 1) return [];
+  const size = ver * 4 + 17;
+  const numAlign = Math.floor(ver / 7) + 2;
+  const step =
+    Math.floor((ver * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < numAlign; pos -= step) {
+    result.splice(1, 0, pos);
+  }
+  return result;
+};
+
+const MASK_PATTERNS: readonly ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+/**
+ * マスク選択用の失点（連続モジュール・2x2ブロック・明暗比）
+ */
+const penaltyScore = (modules: readonly (readonly boolean[])[]): number => {
+  const size = modules.length;
+  let penalty = 0;
+  const at = (x: number, y: number) => modules[y]![x]!;
+
+  // 同色の連続（行・列）
+  for (let i = 0; i < size; i++) {
+    for (const horizontal of [true, false]) {
+      let run = 1;
+      for (let j = 1; j <= size; j++) {
+        const same =
+          j < size &&
+          (horizontal ? at(j, i) === at(j - 1, i) : at(i, j) === at(i, j - 1));
+        if (same) {
+          run++;
+          continue;
+        }
+        if (run >= 5) penalty += run - 2;
+        run = 1;
+      }
+    }
+  }
+  // 同色の 2x2 ブロック
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const c = at(x, y);
+      if (c === at(x + 1, y) && c === at(x, y + 1) && c === at(x + 1, y + 1)) {
+        penalty += 3;
+      }
+    }
+  }
+  // 暗モジュールの比率の偏り
+  const dark = modules.reduce(
+    (sum, row) => sum + row.filter(Boolean).length,
+    0,
+  );
+  const total = size * size;
+  const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+  return penalty + Math.max(0, k) * 10;
+};
+
+/**
+ * テキストをQRコードにエンコード
+ * @throws DeckCodeError QRコードに収まらない場合（generation）
+ */
+export const encodeQrCode = (
+  text: string,
+  errorCorrectionLevel: QrErrorCorrectionLevel = "M",
+): QrCode => {
+  const ecl = ECL_ORDINAL[errorCorrectionLevel];
+  const bytes = new TextEncoder().encode(text);
+
+  let ver: number = MIN_VERSION;
+  for (; ver <= MAX_VERSION; ver++) {
+    const usedBits = 4 + charCountBits(ver) + bytes.length * 8;
+    if (usedBits <= getNumDataCodewords(ver, ecl) * 8) break;
+  }
+  if (ver > MAX_VERSION) {
+    throw new DeckCodeError({
+      type: "generation",
+      message: "QRコードに収まらない長さです",
+    });
+  }
+
+  const size = ver * 4 + 17;
+  const modules = Array.from({ length: size }, () =>
+    Array<boolean>(size).fill(false),
+  );
+  const isFunction = Array.from({ length: size }, () =>
+    Array<boolean>(size).fill(false),
+  );
+  const setFunctionModule = (x: number, y: number, dark: boolean) => {
+    modules[y]![x] = dark;
+    isFunction[y]![x] = true;
+  };
+
+  // --- 機能パターン ---
+  for (let i = 0; i < size; i++) {
+    setFunctionModule(6, i, i % 2 === 0); // タイミングパターン
+    setFunctionModule(i, 6, i % 2 === 0);
+  }
+  for (const [cx, cy] of [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ] as const) {
+    // 位置検出パターン（分離パターンを含む）
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || x >= size || y < 0 || y >= size) continue;
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        setFunctionModule(x, y, dist !== 2 && dist !== 4);
+      }
+    }
+  }
+  const alignPositions = getAlignmentPatternPositions(ver);
+  const numAlign = alignPositions.length;
+  for (let i = 0; i < numAlign; i++) {
+    for (let j = 0; j < numAlign; j++) {
+      // 位置検出パターンと重なる3箇所は除く
+      if (
+        (i === 0 && j === 0) ||
+        (i === 0 && j === numAlign - 1) ||
+        (i === numAlign - 1 && j === 0)
+      ) {
+        continue;
+      }
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunctionModule(
+            alignPositions[i]! + dx,
+            alignPositions[j]! + dy,
+            Math.max(Math.abs(dx), Math.abs(dy)) !== 1,
+          );
+        }
+      }
+    }
+  }
+
+  const drawFormatBits = (mask: number) => {
+    const data = (ECL_FORMAT_BITS[errorCorrectionLevel] << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+    for (let i = 0; i <= 5; i++) setFunctionModule(8, i, getBit(bits, i));
+    setFunctionModule(8, 7, getBit(bits, 6));
+    setFunctionModule(8, 8, getBit(bits, 7));
+    setFunctionModule(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) setFunctionModule(14 - i, 8, getBit(bits, i));
+    for (let i = 0; i < 8; i++) {
+      setFunctionModule(size - 1 - i, 8, getBit(bits, i));
+    }
+    for (let i = 8; i < 15; i++) {
+      setFunctionModule(8, size - 15 + i, getBit(bits, i));
+    }
+    setFunctionModule(8, size - 8, true); // 常に暗
+  };
+  drawFormatBits(0); // 領域の予約（マスク決定後に上書き）
+
+  if (ver >= 7) {
+    let rem = ver;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (ver << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunctionModule(a, b, getBit(bits, i));
+      setFunctionModule(b, a, getBit(bits, i));
+    }
+  }
+
+  // --- データ配置（右下から2列ずつジグザグ） ---
+  const codewords = addEccAndInterleave(
+    buildDataCodewords(bytes, ver, ecl),
+    ver,
+    ecl,
+  );
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5; // 縦のタイミングパターンを飛ばす
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (isFunction[y]![x] || bitIndex >= codewords.length * 8) continue;
+        modules[y]![x] = getBit(codewords[bitIndex >>> 3]!, 7 - (bitIndex & 7));
+        bitIndex++;
+      }
+    }
+  }
+
+  // --- マスクの選択 ---
+  const applyMask = (mask: number) => {
+    const pattern = MASK_PATTERNS[mask]!;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (!isFunction[y]![x] && pattern(x, y)) {
+          modules[y]![x] = !modules[y]![x];
+        }
+      }
+    }
+  };
+  let bestMask = 0;
+  let minPenalty = Infinity;
+  for (let mask = 0; mask < MASK_PATTERNS.length; mask++) {
+    applyMask(mask);
+    drawFormatBits(mask);
+    const penalty = penaltyScore(modules);
+    if (penalty < minPenalty) {
+      bestMask = mask;
+      minPenalty = penalty;
+    }
+    applyMask(mask); // XOR のため再適用で元に戻る
+  }
+  applyMask(bestMask);
+  drawFormatBits(bestMask);
+
+  return { size, modules };
+};
+
+/**
+ * QRコードを SVG の path（d 属性）に変換（1モジュール = 1単位、quiet zone 分ずらす）
+ */
+export const qrCodeToSvgPath = (qr: QrCode, margin: number): string => {
+  const parts: string[] = [];
+  qr.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) parts.push(`M${x + margin},${y + margin}h1v1h-1z`);
+    });
+  });
+  return parts.join("");
+};
@@ -0,0 +1,60 @@
+/**
+ * QRコードの生成（qrCode.ts）と jsQR による読み取りの往復テスト。
+ */
+import { describe, expect, it } from "vitest";
+import { encodeQrCode, type QrCode } from "./qrCode";
+import { decodeQrCodeFromPixels } from "./qrCodeReader";
+import { encodeKcgDeckCode } from "./deckCode";
+
+const MODULE_PIXELS = 4;
+const MARGIN_MODULES = 4;
+
+// QRコードを白地に黒のモジュールで描いた RGBA 画素列に変換
+const renderPixels = (
+  qr: QrCode,
+): { pixels: Uint8ClampedArray; width: number } => {
+  const width = (qr.size + MARGIN_MODULES * 2) * MODULE_PIXELS;
+  const pixels = new Uint8ClampedArray(width * width * 4).fill(255);
+  for (let y = 0; y < width; y++) {
+    for (let x = 0; x < width; x++) {
+      const row = Math.floor(y / MODULE_PIXELS) - MARGIN_MODULES;
+      const col = Math.floor(x / MODULE_PIXELS) - MARGIN_MODULES;
+      if (qr.modules[row]?.[col]) {
+        const offset = (y * width + x) * 4;
+        pixels.fill(0, offset, offset + 3);
+      }
+    }
+  }
+  return { pixels, width };
+};
+
+describe("decodeQrCodeFromPixels", () => {
+  it.each([
+    ["短いKCGコード", encodeKcgDeckCode(["AA-1"])],
+    [
+      "60枚のKCGコード",
+      encodeKcgDeckCode(
+        Array.from({ length: 15 }, (_, i) => `BA-${i + 1}`).flatMap((id) => [
+          id,
+          id,
+          id,
+          id,
+        ]),
+      ),
+    ],
+    ["共有URL", "https://example.com/waic-deckbuilder/#deck=KCG-rDLXC"],
+  ])("%s を生成したQRコードから読み取る", async (_, text) => {
+    const { pixels, width } = renderPixels(encodeQrCode(text));
+    await expect(decodeQrCodeFromPixels(pixels, width, width)).resolves.toBe(
+      text,
+    );
+  });
+
+  it("QRコードがなければ null を返す", async () => {
+    const width = 64;
+    const pixels = new Uint8ClampedArray(width * width * 4).fill(255);
+    await expect(decodeQrCodeFromPixels(pixels, width, width)).resolves.toBe(
+      null,
+    );
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * 画像からQRコードを読み取るユーティリティ
+ *
+ * - ブラウザ組み込みの BarcodeDetector（Shape Detection API）があれば優先して使用する
+ * - 未搭載の環境（iOS Safari・Firefox など）や検出できなかった場合は jsQR で読み取る
+ *   （画像をキャンバスに描画して画素を渡す。jsQR は必要になった時点で読み込む）
+ * - いずれも端末内で処理し、通信は行わない
+ * - 未対応環境・QRコードが見つからない場合は DeckCodeError（validation/decode）を投げる
+ * - 複数のQRコードが写っている場合は最初に検出したものを採用する
+ */
+import { DeckCodeError } from "../types";
+
+// jsQR に渡す画像の長辺の上限（大きな写真での処理時間・メモリを抑える）
+const MAX_DECODE_IMAGE_SIZE = 1024 as const;
+
+// lib.dom に未収録のため必要な範囲のみ宣言
+interface DetectedBarcode {
+  readonly rawValue: string;
+}
+interface BarcodeDetectorInstance {
+  detect(source: ImageBitmapSource): Promise<readonly DetectedBarcode[]>;
+}
+type BarcodeDetectorConstructor = new (options?: {
+  readonly formats?: readonly string[];
+}) => BarcodeDetectorInstance;
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+  (globalThis as { BarcodeDetector?: BarcodeDetectorConstructor })
+    .BarcodeDetector;
+
+// 画素の取得に使うキャンバス（OffscreenCanvas 非対応環境では DOM のキャンバス）
+const createCanvasContext = (
+  width: number,
+  height: number,
+): OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null => {
+  if (typeof OffscreenCanvas !== "undefined") {
+    return new OffscreenCanvas(width, height).getContext("2d");
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas.getContext("2d", { willReadFrequently: true });
+};
+
+const canUseCanvas = (): boolean =>
+  typeof OffscreenCanvas !== "undefined" || typeof document !== "undefined";
+
+/**
+ * この環境でQRコードの読み取りが可能かどうか
+ */
+export const isQrCodeReaderSupported = (): boolean =>
+  typeof createImageBitmap === "function" &&
+  (getBarcodeDetector() !== undefined || canUseCanvas());
+
+/**
+ * RGBA の画素列からQRコードの内容を読み取る（jsQR）
+ * @returns 見つからない場合は null
+ */
+export const decodeQrCodeFromPixels = async (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+): Promise<string | null> => {
+  const { default: jsQR } = await import("jsqr");
+  const result = jsQR(pixels, width, height, {
+    inversionAttempts: "attemptBoth",
+  });
+  return result && result.data.trim() !== "" ? result.data : null;
+};
+
+const detectWithBarcodeDetector = async (
+  bitmap: ImageBitmap,
+): Promise<string | null> => {
+  const Detector = getBarcodeDetector();
+  if (!Detector) return null;
+  try {
+    const detected = await new Detector({ formats: ["qr_code"] }).detect(
+      bitmap,
+    );
+    return detected.find((b) => b.rawValue.trim() !== "")?.rawValue ?? null;
+  } catch (e) {
+    // qr_code 非対応の実装などは jsQR での読み取りに委ねる
+    console.warn("BarcodeDetector での読み取りに失敗しました", e);
+    return null;
+  }
+};
+
+const detectWithJsQr = async (bitmap: ImageBitmap): Promise<string | null> => {
+  if (!canUseCanvas()) return null;
+  const scale = Math.min(
+    1,
+    MAX_DECODE_IMAGE_SIZE / Math.max(bitmap.width, bitmap.height),
+  );
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const context = createCanvasContext(width, height);
+  if (!context) return null;
+  context.drawImage(bitmap, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+  return decodeQrCodeFromPixels(data, width, height);
+};
+
+/**
+ * 画像ファイルからQRコードの内容を読み取る
+ * @throws DeckCodeError 未対応環境（validation）、読み取り失敗（decode）
+ */
+export const readQrCodeFromImage = async (image: Blob): Promise<string> => {
+  if (!isQrCodeReaderSupported()) {
+    throw new DeckCodeError({
+      type: "validation",
+      message: "この環境ではQRコードの読み取りに対応していません",
+    });
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(image);
+  } catch (e) {
+    throw new DeckCodeError({
+      type: "decode",
+      message: "画像を読み込めませんでした",
+      originalError: e,
+    });
+  }
+
+  try {
+    const value =
+      (await detectWithBarcodeDetector(bitmap)) ??
+      (await detectWithJsQr(bitmap));
+    if (value === null) {
+      throw new DeckCodeError({
+        type: "decode",
+        message: "画像からQRコードが見つかりませんでした",
+      });
+    }
+    return value;
+  } catch (e) {
+    if (e instanceof DeckCodeError) throw e;
+    throw new DeckCodeError({
+      type: "decode",
+      message: "QRコードの読み取りに失敗しました",
+      originalError: e,
+    });
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,109 @@
+/**
+ * @file restrictionListLoader.ts
+ * @brief 制限カードリスト（JSON）を読み込み、Valibot で検証して RestrictionList に変換するユーティリティ。
+ *
+ * ファイル形式:
+ * { "version": "2025-10-01", "cards": [{ "id": "AA-1", "limit": 1 }, ...] }
+ * - limit: 0 は禁止、1..MAX_CARD_COPIES-1 は制限
+ * - 同一IDの重複は検証エラー
+ */
+import * as v from "valibot";
+import { GAME_CONSTANTS } from "../constants";
+import { CardIdSchema } from "../domain";
+import type { RestrictionList } from "../types";
+
+// 制限リスト読み込みエラー型
+export class RestrictionListError extends Error {
+  readonly type: "FetchError" | "ParseError" | "ValidationError";
+  readonly originalError?: unknown;
+
+  constructor(params: {
+    type: "FetchError" | "ParseError" | "ValidationError";
+    message: string;
+    originalError?: unknown;
+  }) {
+    super(params.message, { cause: params.originalError });
+    this.name = "RestrictionListError";
+    this.type = params.type;
+    this.originalError = params.originalError;
+    Object.setPrototypeOf(this, RestrictionListError.prototype);
+  }
+}
+
+const RestrictionEntrySchema = v.object({
+  id: CardIdSchema,
+  limit: v.pipe(
+    v.number(),
+    v.integer(),
+    v.minValue(0),
+    v.maxValue(GAME_CONSTANTS.MAX_CARD_COPIES - 1),
+  ),
+});
+
+const RestrictionListFileSchema = v.object({
+  version: v.pipe(v.string(), v.trim(), v.nonEmpty("版が空です")),
+  cards: v.pipe(
+    v.array(RestrictionEntrySchema),
+    v.check(
+      (entries) => new Set(entries.map((e) => e.id)).size === entries.length,
+      "カードIDが重複しています",
+    ),
+  ),
+});
+
+/**
+ * 制限リストの生データを検証して RestrictionList に変換する
+ */
+export const parseRestrictionList = (data: unknown): RestrictionList => {
+  const parsed = v.safeParse(RestrictionListFileSchema, data);
+  if (!parsed.success) {
+    throw new RestrictionListError({
+      type: "ValidationError",
+      message: `制限リストの検証に失敗しました: ${parsed.issues[0]?.message ?? "unknown"}`,
+      originalError: parsed.issues,
+    });
+  }
+  return {
+    version: parsed.output.version,
+    limits: new Map(parsed.output.cards.map((e) => [e.id, e.limit] as const)),
+  };
+};
+
+export async function loadRestrictionList(
+  path: string,
+): Promise<RestrictionList> {
+  let response: Response;
+  try {
+    response = await fetch(path, {
+      method: "GET",
+      headers: { Accept: "application/json" },
+      cache: "no-store",
+    });
+  } catch (error) {
+    throw new RestrictionListError({
+      type: "FetchError",
+      message: `ネットワークエラー: ${error instanceof Error ? error.message : String(error)}`,
+      originalError: error,
+    });
+  }
+
+  if (!response.ok) {
+    throw new RestrictionListError({
+      type: "FetchError",
+      message: `HTTP ${response.status} ${response.statusText}`,
+    });
+  }
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch (error) {
+    throw new RestrictionListError({
+      type: "ParseError",
+      message: "制限リストの JSON 解析に失敗しました",
+      originalError: error,
+    });
+  }
+
+  return parseRestrictionList(data);
+}
@@ -0,0 +1,47 @@
+/**
+ * 保存デッキ一覧の永続化フォーマットのテスト（v1 からの移行）。
+ */
+import { describe, expect, it } from "vitest";
+import { getFormatById, isCardLegalInFormat } from "../domain";
+import { parseSavedDeckLibrary } from "./savedDeckStorage";
+
+const NOW = "2024-01-01T00:00:00.000Z";
+
+describe("parseSavedDeckLibrary", () => {
+  it("v1 の保存デッキは ex/prm を含めて違反とならないフォーマットに移行する", () => {
+    const [deck] = parseSavedDeckLibrary(
+      [{ name: "旧デッキ", code: "KCG-rDLXC" }],
+      NOW,
+    );
+    expect(deck).toMatchObject({ name: "旧デッキ", createdAt: NOW });
+    const format = getFormatById(deck!.format);
+    expect(format.cardPool).toBe("all");
+    expect(
+      isCardLegalInFormat(format, {
+        id: "exA-1",
+        name: "ex",
+        kind: "Artist",
+        type: ["赤"],
+      }),
+    ).toBe(true);
+  });
+
+  it("フォーマットのない v2 の保存デッキも同じフォーマットになる", () => {
+    const [deck] = parseSavedDeckLibrary(
+      {
+        version: 2,
+        decks: [
+          {
+            id: "1",
+            name: "デッキ",
+            code: "KCG-rDLXC",
+            createdAt: NOW,
+            updatedAt: NOW,
+          },
+        ],
+      },
+      NOW,
+    );
+    expect(getFormatById(deck!.format).cardPool).toBe("all");
+  });
+});
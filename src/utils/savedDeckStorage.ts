@@ -0,0 +1,147 @@
+/**
+ * @file 保存デッキ一覧の永続化フォーマット（スキーマ検証とマイグレーション）。
+ *
+ * 保存形式（DeckRepository の "savedDecks"。旧 localStorage "savedDecks" も同形式）:
+ * - v1（旧形式）: `[{ name, code }, ...]`
+ * - v2: `{ version: 2, decks: SavedDeck[] }`（revisions は後から追加された任意項目）
+ * 読み込み時に v1 を v2 へ変換する。不正な要素は破棄して残りを採用する。
+ */
+import * as v from "valibot";
+import { DEFAULT_FORMAT_ID, FORMATS } from "../domain";
+import type { SavedDeck } from "../types";
+
+export const SAVED_DECKS_STORAGE_KEY = "savedDecks" as const;
+export const SAVED_DECKS_VERSION = 2 as const;
+export const MAX_SAVED_DECK_REVISIONS = 20 as const;
+
+const NonEmptyTrimmedString = v.pipe(v.string(), v.trim(), v.nonEmpty());
+
+const SavedDeckV1Schema = v.object({
+  name: NonEmptyTrimmedString,
+  code: NonEmptyTrimmedString,
+});
+
+const SavedDeckRevisionSchema = v.object({
+  id: NonEmptyTrimmedString,
+  savedAt: v.pipe(v.string(), v.isoTimestamp()),
+  code: NonEmptyTrimmedString,
+});
+
+export const SavedDeckV2Schema = v.object({
+  id: NonEmptyTrimmedString,
+  name: NonEmptyTrimmedString,
+  code: NonEmptyTrimmedString,
+  createdAt: v.pipe(v.string(), v.isoTimestamp()),
+  updatedAt: v.pipe(v.string(), v.isoTimestamp()),
+  notes: v.optional(v.string(), ""),
+  tags: v.optional(v.array(NonEmptyTrimmedString), []),
+  folder: v.optional(v.pipe(v.string(), v.trim()), ""),
+  format: v.optional(v.picklist(FORMATS.map((f) => f.id)), DEFAULT_FORMAT_ID),
+  // 上限を超える分は破棄せず切り詰める（古い版から削除）
+  revisions: v.optional(
+    v.pipe(
+      v.array(SavedDeckRevisionSchema),
+      v.transform((revs) => revs.slice(0, MAX_SAVED_DECK_REVISIONS)),
+    ),
+    [],
+  ),
+});
+
+const SavedDeckLibraryV2Schema = v.object({
+  version: v.literal(SAVED_DECKS_VERSION),
+  decks: v.array(v.unknown()),
+});
+
+/**
+ * 保存デッキの一意なIDを生成
+ */
+export const generateSavedDeckId = (): string =>
+  typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// 要素ごとに検証し、不正な要素のみ破棄する
+const parseEach = <T>(
+  items: readonly unknown[],
+  parse: (item: unknown) => T | null,
+): T[] => items.flatMap((item) => parse(item) ?? []);
+
+// ID・名前の重複は先勝ちで除外（不変条件の維持）
+const dedupe = (decks: readonly SavedDeck[]): SavedDeck[] => {
+  const ids = new Set<string>();
+  const names = new Set<string>();
+  return decks.filter((d) => {
+    if (ids.has(d.id) || names.has(d.name)) return false;
+    ids.add(d.id);
+    names.add(d.name);
+    return true;
+  });
+};
+
+/**
+ * v1 の要素を v2 に変換（日時は移行時刻、その他は既定値）
+ */
+export const migrateSavedDeckV1 = (
+  data: unknown,
+  now: string,
+): SavedDeck | null => {
+  const parsed = v.safeParse(SavedDeckV1Schema, data);
+  if (!parsed.success) return null;
+  return {
+    id: generateSavedDeckId(),
+    name: parsed.output.name,
+    code: parsed.output.code,
+    createdAt: now,
+    updatedAt: now,
+    notes: "",
+    tags: [],
+    folder: "",
+    format: DEFAULT_FORMAT_ID,
+    revisions: [],
+  };
+};
+
+/**
+ * 旧形式（v1）の永続化データかどうか
+ */
+export const isLegacySavedDeckLibrary = (data: unknown): data is unknown[] =>
+  Array.isArray(data);
+
+/**
+ * 永続化データ（JSON.parse 済み）を保存デッキ一覧に変換
+ * - v1 配列は v2 へマイグレーション
+ * - 未知の形式は空配列
+ */
+export const parseSavedDeckLibrary = (
+  data: unknown,
+  now: string = new Date().toISOString(),
+): SavedDeck[] => {
+  if (isLegacySavedDeckLibrary(data)) {
+    return dedupe(parseEach(data, (d) => migrateSavedDeckV1(d, now)));
+  }
+  const library = v.safeParse(SavedDeckLibraryV2Schema, data);
+  if (!library.success) return [];
+  return dedupe(
+    parseEach(library.output.decks, (d) => {
+      const parsed = v.safeParse(SavedDeckV2Schema, d);
+      return parsed.success ? parsed.output : null;
+    }),
+  );
+};
+
+/**
+ * 保存デッキ一覧を版付きの永続化形式（オブジェクト）に変換
+ */
+export const toSavedDeckLibrary = (
+  decks: readonly SavedDeck[],
+): { version: typeof SAVED_DECKS_VERSION; decks: readonly SavedDeck[] } => ({
+  version: SAVED_DECKS_VERSION,
+  decks,
+});
+
+/**
+ * 保存デッキ一覧を永続化形式（JSON文字列）に変換
+ */
+export const serializeSavedDeckLibrary = (
+  decks: readonly SavedDeck[],
+): string => JSON.stringify(toSavedDeckLibrary(decks));
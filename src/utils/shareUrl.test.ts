@@ -0,0 +1,45 @@
+/**
+ * フィルター条件の共有URLのテスト（お気に入りの絞り込みは共有しない）。
+ */
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FILTER_CRITERIA } from "../domain";
+import type { FilterCriteria } from "../types";
+import { buildFilterShareUrl, parseFilterShareHash } from "./shareUrl";
+
+const ORIGIN = "https://example.com";
+
+const hashOf = (url: string): string => url.slice(url.indexOf("#"));
+
+describe("buildFilterShareUrl", () => {
+  it("お気に入りの絞り込みを含めずに往復で復元する", () => {
+    const criteria: FilterCriteria = {
+      ...DEFAULT_FILTER_CRITERIA,
+      text: "VOL",
+      kind: ["Artist"],
+      onlyFavorites: true,
+    };
+    const url = buildFilterShareUrl(ORIGIN, criteria);
+    expect(url).not.toContain("onlyFavorites");
+    expect(parseFilterShareHash(hashOf(url))).toEqual({
+      ...criteria,
+      onlyFavorites: false,
+    });
+  });
+});
+
+describe("parseFilterShareHash", () => {
+  it("共有URLに含まれるお気に入りの絞り込みは無視する", () => {
+    const params = new URLSearchParams({
+      filter: JSON.stringify({ text: "VOL", onlyFavorites: true }),
+    });
+    expect(parseFilterShareHash(`#${params.toString()}`)).toEqual({
+      ...DEFAULT_FILTER_CRITERIA,
+      text: "VOL",
+    });
+  });
+
+  it("不正な値は null を返す", () => {
+    expect(parseFilterShareHash("#filter=%7B")).toBeNull();
+    expect(parseFilterShareHash("#deck=KCG-rDLXC")).toBeNull();
+  });
+});
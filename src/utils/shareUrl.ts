@@ -0,0 +1,99 @@
+/**
+ * @file shareUrl.ts
+ * @brief デッキ・フィルター条件の共有URLの生成と解析。
+ *
+ * 形式: `<origin><BASE_URL>#deck=<KCGコード>&name=<デッキ名>`
+ *       `<origin><BASE_URL>#filter=<フィルター条件のJSON>`
+ * - 共有内容はフラグメント（#）に格納し、サーバーへ送信されないようにする。
+ * - name は省略可能。値は URLSearchParams でエンコードする。
+ * - デッキの解析はコードの検証を行わない（インポート時に DeckCodeError として扱う）。
+ * - フィルター条件は既定値と異なる項目のみを格納し、解析時に検証・補完する。
+ * - お気に入り（onlyFavorites）は端末ごとのデータのため共有しない。解析時も無視して既定値とする。
+ */
+import { DEFAULT_FILTER_CRITERIA, parseFilterCriteria } from "../domain";
+import type { FilterCriteria } from "../types";
+import { getNormalizedBaseUrl } from "./image";
+
+const DECK_PARAM = "deck" as const;
+const NAME_PARAM = "name" as const;
+const FILTER_PARAM = "filter" as const;
+
+export interface SharedDeck {
+  readonly code: string;
+  readonly name?: string;
+}
+
+/**
+ * デッキ共有URLを生成
+ * @param origin 例: "https://example.com"（通常は location.origin）
+ */
+export const buildDeckShareUrl = (
+  origin: string,
+  code: string,
+  name?: string,
+): string => {
+  const params = new URLSearchParams({ [DECK_PARAM]: code });
+  const trimmedName = name?.trim();
+  if (trimmedName) params.set(NAME_PARAM, trimmedName);
+  return `${origin}${getNormalizedBaseUrl()}#${params.toString()}`;
+};
+
+/**
+ * URLフラグメントから共有デッキを取り出す（該当しなければ null）
+ * @param hash 例: "#deck=KCG-...&name=..."（location.hash）
+ */
+export const parseDeckShareHash = (hash: string): SharedDeck | null => {
+  const fragment = hash.startsWith("#") ? hash.slice(1) : hash;
+  if (!fragment) return null;
+
+  const params = new URLSearchParams(fragment);
+  const code = params.get(DECK_PARAM)?.trim();
+  if (!code) return null;
+
+  const name = params.get(NAME_PARAM)?.trim();
+  return name ? { code, name } : { code };
+};
+
+/**
+ * フィルター条件の共有URLを生成
+ * @param origin 例: "https://example.com"（通常は location.origin）
+ */
+export const buildFilterShareUrl = (
+  origin: string,
+  criteria: FilterCriteria,
+): string => {
+  // URLを短く保つため既定値と同じ項目は省く（お気に入りは共有しない）
+  const changed = Object.fromEntries(
+    Object.entries(criteria).filter(
+      ([key, value]) =>
+        key !== "onlyFavorites" &&
+        JSON.stringify(value) !==
+          JSON.stringify(DEFAULT_FILTER_CRITERIA[key as keyof FilterCriteria]),
+    ),
+  );
+  const params = new URLSearchParams({
+    [FILTER_PARAM]: JSON.stringify(changed),
+  });
+  return `${origin}${getNormalizedBaseUrl()}#${params.toString()}`;
+};
+
+/**
+ * URLフラグメントから共有フィルター条件を取り出す（該当しない・不正なら null）
+ * @param hash 例: "#filter=%7B%22text%22%3A...%7D"（location.hash）
+ */
+export const parseFilterShareHash = (hash: string): FilterCriteria | null => {
+  const fragment = hash.startsWith("#") ? hash.slice(1) : hash;
+  if (!fragment) return null;
+
+  const json = new URLSearchParams(fragment).get(FILTER_PARAM);
+  if (!json) return null;
+  let criteria: FilterCriteria | null;
+  try {
+    criteria = parseFilterCriteria(JSON.parse(json));
+  } catch {
+    return null;
+  }
+  return criteria
+    ? { ...criteria, onlyFavorites: DEFAULT_FILTER_CRITERIA.onlyFavorites }
+    : null;
+};
@@ -0,0 +1,38 @@
+/**
+ * @file タブ間同期ユーティリティ（BroadcastChannel）。
+ *
+ * - 同一オリジンで開かれた他のタブへ、保存済みデータの変更を通知する
+ * - 送信元のタブ自身にはメッセージは届かない（BroadcastChannel の仕様）
+ * - Vue のリアクティブプロキシは構造化複製できないため、送信時に JSON で平坦化する
+ * - BroadcastChannel 非対応環境では何もしない（同期なしで動作を継続）
+ */
+
+const CHANNEL_PREFIX = "waic-deckbuilder:" as const;
+
+export interface TabSyncChannel<T> {
+  /** 他のタブへ通知 */
+  post(message: T): void;
+  /** 他のタブからの通知を購読（戻り値で購読解除） */
+  subscribe(handler: (message: T) => void): () => void;
+}
+
+export const createTabSyncChannel = <T>(name: string): TabSyncChannel<T> => {
+  if (typeof BroadcastChannel === "undefined") {
+    return { post: () => {}, subscribe: () => () => {} };
+  }
+  const channel = new BroadcastChannel(`${CHANNEL_PREFIX}${name}`);
+  return {
+    post: (message) => {
+      try {
+        channel.postMessage(JSON.parse(JSON.stringify(message)));
+      } catch (e) {
+        console.warn("他のタブへの通知に失敗しました", e);
+      }
+    },
+    subscribe: (handler) => {
+      const listener = (event: MessageEvent) => handler(event.data as T);
+      channel.addEventListener("message", listener);
+      return () => channel.removeEventListener("message", listener);
+    },
+  };
+};
@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// ドメイン/ユーティリティの純粋関数のテスト（DOM・Vue プラグインは使わない）
+export default defineConfig({
+  test: {
+    include: ["src/**/*.test.ts"],
+    environment: "node",
+  },
+});